@@ -0,0 +1,140 @@
+import { nanoid } from 'nanoid';
+import type { Assertion, AssertionOperator, AssertionType } from '../../types';
+import { useCanvasStore } from '../../store/useCanvasStore';
+
+const typeLabels: Record<AssertionType, string> = {
+  status: 'Status =',
+  statusRange: 'Status in',
+  responseTime: 'Time <',
+  header: 'Header',
+  jsonPath: 'JSONPath',
+  arrayLength: 'Length',
+};
+
+const operatorsByType: Partial<Record<AssertionType, AssertionOperator[]>> = {
+  header: ['exists', 'equals', 'matches'],
+  jsonPath: ['exists', 'equals', 'contains', 'matches'],
+};
+
+const expectedPlaceholders: Record<AssertionType, string> = {
+  status: '200',
+  statusRange: '200-299',
+  responseTime: 'ms',
+  header: 'value or regex',
+  jsonPath: 'value or regex',
+  arrayLength: '3',
+};
+
+const targetPlaceholders: Partial<Record<AssertionType, string>> = {
+  header: 'Content-Type',
+  jsonPath: '$.id',
+  arrayLength: '$.items',
+};
+
+export function AssertionsEditor({ nodeId, assertions }: { nodeId: string; assertions: Assertion[] }) {
+  const updateNodeAssertions = useCanvasStore((state) => state.updateNodeAssertions);
+  const results = useCanvasStore((state) => state.testResults[nodeId]);
+
+  const handleChange = (index: number, changes: Partial<Assertion>) => {
+    const newAssertions = assertions.map((assertion, i) =>
+      i === index ? { ...assertion, ...changes } : assertion
+    );
+    updateNodeAssertions(nodeId, newAssertions);
+  };
+
+  const handleTypeChange = (index: number, type: AssertionType) => {
+    handleChange(index, {
+      type,
+      operator: operatorsByType[type]?.[0],
+      target: targetPlaceholders[type] ? assertions[index].target || '' : undefined,
+    });
+  };
+
+  const addAssertion = () => {
+    updateNodeAssertions(nodeId, [
+      ...assertions,
+      { id: nanoid(), type: 'statusRange', expected: '200-299' },
+    ]);
+  };
+
+  const removeAssertion = (index: number) => {
+    updateNodeAssertions(nodeId, assertions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-1">
+      {assertions.map((assertion, index) => {
+        const operators = operatorsByType[assertion.type];
+        const result = results?.find((r) => r.assertionId === assertion.id);
+
+        return (
+          <div key={assertion.id} className="flex items-center gap-1" title={result?.message}>
+            <span className={`w-3 text-xs ${result ? (result.passed ? 'text-green-600' : 'text-red-600') : 'text-gray-300'}`}>
+              {result ? (result.passed ? '✓' : '✗') : '•'}
+            </span>
+            <select
+              value={assertion.type}
+              onChange={(e) => handleTypeChange(index, e.target.value as AssertionType)}
+              onClick={(e) => e.stopPropagation()}
+              className="px-1 py-0.5 border border-gray-300 rounded text-xs bg-white"
+            >
+              {Object.entries(typeLabels).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            {targetPlaceholders[assertion.type] && (
+              <input
+                type="text"
+                value={assertion.target || ''}
+                onChange={(e) => handleChange(index, { target: e.target.value })}
+                onClick={(e) => e.stopPropagation()}
+                placeholder={targetPlaceholders[assertion.type]}
+                className="w-20 px-1.5 py-0.5 border border-gray-300 rounded text-xs font-mono"
+              />
+            )}
+            {operators && (
+              <select
+                value={assertion.operator || operators[0]}
+                onChange={(e) => handleChange(index, { operator: e.target.value as AssertionOperator })}
+                onClick={(e) => e.stopPropagation()}
+                className="px-1 py-0.5 border border-gray-300 rounded text-xs bg-white"
+              >
+                {operators.map((operator) => (
+                  <option key={operator} value={operator}>{operator}</option>
+                ))}
+              </select>
+            )}
+            {assertion.operator !== 'exists' && (
+              <input
+                type="text"
+                value={assertion.expected}
+                onChange={(e) => handleChange(index, { expected: e.target.value })}
+                onClick={(e) => e.stopPropagation()}
+                placeholder={expectedPlaceholders[assertion.type]}
+                className="flex-1 min-w-0 w-16 px-1.5 py-0.5 border border-gray-300 rounded text-xs font-mono"
+              />
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeAssertion(index);
+              }}
+              className="px-1.5 text-red-600 hover:bg-red-50 rounded text-xs"
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          addAssertion();
+        }}
+        className="text-xs text-blue-600 hover:underline"
+      >
+        + Add assertion
+      </button>
+    </div>
+  );
+}
@@ -1,18 +1,32 @@
 import { useState } from 'react';
 import { Handle, Position, type NodeProps } from 'reactflow';
-import { type BlockData } from '../../types';
-import { useCanvasStore } from '../../store/useCanvasStore';
+import { useShallow } from 'zustand/react/shallow';
+import { type BlockData, type MockSettings } from '../../types';
+import { useCanvasStore, getScopedVariables } from '../../store/useCanvasStore';
+import { interpolate, hasPlaceholders } from '../../utils/template';
 
 export function BaseUrlBlock({ data, id }: NodeProps<BlockData>) {
   const [isEditing, setIsEditing] = useState(false);
   const [value, setValue] = useState(data.value);
   const updateNodeValue = useCanvasStore((state) => state.updateNodeValue);
+  const setVariable = useCanvasStore((state) => state.setVariable);
+  const updateNodeMock = useCanvasStore((state) => state.updateNodeMock);
+  const variables = useCanvasStore(useShallow(getScopedVariables));
+
+  // Imported specs can list several servers; a hand-edited value matches none of them
+  const servers = data.servers || [];
+  const selectedServer = servers.find((server) => server.url === data.value);
 
   // ✨ OPTIMIZED: Simple selector instead of O(N×E) path tracing
   const isInActivePath = useCanvasStore((state) =>
     state.activePathNodes.includes(id)
   );
 
+  // Resolved against the active environment, only shown when the value is templated
+  const resolvedValue = useCanvasStore((state) =>
+    hasPlaceholders(data.value) ? interpolate(data.value, getScopedVariables(state)) : null
+  );
+
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsEditing(true);
@@ -23,9 +37,30 @@ export function BaseUrlBlock({ data, id }: NodeProps<BlockData>) {
     updateNodeValue(id, value);
   };
 
+  const handleServerChange = (url: string) => {
+    setValue(url);
+    updateNodeValue(id, url);
+  };
+
+  const mock: MockSettings = data.mock || { enabled: false };
+
+  // Empty or invalid numbers clear the setting
+  const updateMockNumber = (field: 'latency' | 'errorRate', text: string, max: number) => {
+    const number = Number(text);
+    const next = { ...mock };
+    if (text.trim() === '' || Number.isNaN(number) || number <= 0) {
+      delete next[field];
+    } else {
+      next[field] = Math.min(number, max);
+    }
+    updateNodeMock(id, next);
+  };
+
   return (
     <div className={`px-4 py-3 bg-blue-100 border-2 ${isInActivePath ? 'border-blue-600 ring-2 ring-blue-400' : 'border-blue-400'} rounded-lg shadow-md min-w-[200px] transition-all`}>
-      <div className="text-xs text-blue-600 font-semibold mb-1">BASE URL</div>
+      <div className="text-xs text-blue-600 font-semibold mb-1 truncate" title={data.label}>
+        BASE URL{data.label && <span className="font-normal"> · {data.label}</span>}
+      </div>
       {isEditing ? (
         <input
           type="text"
@@ -44,6 +79,105 @@ export function BaseUrlBlock({ data, id }: NodeProps<BlockData>) {
           {data.value || 'Double-click to edit'}
         </div>
       )}
+      {servers.length > 1 && (
+        <select
+          value={selectedServer ? selectedServer.url : ''}
+          onChange={(e) => handleServerChange(e.target.value)}
+          onClick={(e) => e.stopPropagation()}
+          className="nodrag mt-1 w-full px-1 py-0.5 bg-blue-50 border border-blue-300 rounded text-xs text-blue-700"
+          title="Server from the imported spec"
+        >
+          {!selectedServer && <option value="">Custom URL</option>}
+          {servers.map((server) => (
+            <option key={server.url} value={server.url}>{server.description || server.url}</option>
+          ))}
+        </select>
+      )}
+      {selectedServer?.variables && (
+        <div className="mt-1 space-y-1">
+          {Object.entries(selectedServer.variables).map(([name, variable]) => (
+            <div key={name} className="flex items-center gap-1" title={variable.description}>
+              <span className="text-xs font-mono text-blue-600 shrink-0">{name}</span>
+              {variable.enum ? (
+                <select
+                  value={variables[name] ?? variable.default}
+                  onChange={(e) => setVariable(name, e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="nodrag flex-1 min-w-0 px-1 py-0.5 bg-white border border-blue-300 rounded text-xs"
+                >
+                  {/* A value set elsewhere stays selectable even when the spec doesn't list it */}
+                  {variables[name] !== undefined && !variable.enum.includes(variables[name]) && (
+                    <option value={variables[name]}>{variables[name]}</option>
+                  )}
+                  {variable.enum.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={variables[name] ?? variable.default}
+                  onChange={(e) => setVariable(name, e.target.value)}
+                  onClick={(e) => e.stopPropagation()}
+                  className="flex-1 min-w-0 px-1 py-0.5 bg-white border border-blue-300 rounded text-xs"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {!isEditing && resolvedValue !== null && (
+        <div
+          className={`mt-1 px-2 text-xs font-mono break-all ${hasPlaceholders(resolvedValue) ? 'text-red-600' : 'text-blue-500'}`}
+          title={hasPlaceholders(resolvedValue) ? 'Unresolved variables in the active environment' : 'Resolved URL'}
+        >
+          → {resolvedValue}
+        </div>
+      )}
+      <div className="mt-2 pt-1 border-t border-blue-200">
+        <label
+          className="nodrag flex items-center gap-1 text-xs text-blue-700 cursor-pointer"
+          title="Answer requests under this base URL from the imported spec, without the network"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <input
+            type="checkbox"
+            checked={mock.enabled}
+            onChange={(e) => updateNodeMock(id, { ...mock, enabled: e.target.checked })}
+          />
+          Mock from spec
+          {mock.enabled && <span className="ml-auto px-1 bg-amber-200 text-amber-800 rounded text-[10px] font-semibold">MOCK</span>}
+        </label>
+        {mock.enabled && (
+          <div className="mt-1 flex gap-1">
+            <label className="flex items-center gap-1 text-xs text-blue-600" title="Delay before each answer">
+              <input
+                type="number"
+                min={0}
+                value={mock.latency ?? ''}
+                onChange={(e) => updateMockNumber('latency', e.target.value, 60000)}
+                onClick={(e) => e.stopPropagation()}
+                placeholder="0"
+                className="nodrag w-16 px-1 py-0.5 bg-white border border-blue-300 rounded text-xs"
+              />
+              ms
+            </label>
+            <label className="flex items-center gap-1 text-xs text-blue-600" title="Share of requests answered with an error response">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={mock.errorRate ?? ''}
+                onChange={(e) => updateMockNumber('errorRate', e.target.value, 100)}
+                onClick={(e) => e.stopPropagation()}
+                placeholder="0"
+                className="nodrag w-12 px-1 py-0.5 bg-white border border-blue-300 rounded text-xs"
+              />
+              % errors
+            </label>
+          </div>
+        )}
+      </div>
       <Handle type="source" position={Position.Right} className="bg-blue-500!" />
     </div>
   );
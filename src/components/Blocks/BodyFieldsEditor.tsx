@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import type { BodyField, BodyFieldType } from '../../types';
+import { useCanvasStore, getScopedVariables } from '../../store/useCanvasStore';
+import { findUnresolved } from '../../utils/template';
+import {
+  BODY_FIELD_TYPES,
+  dragDataToField,
+  formatRawBody,
+  getFieldType,
+  isContainerType,
+  parseFieldPath,
+  parseRawBody,
+  setFieldAtPath,
+  type BodyDragData,
+} from '../../utils/bodyFields';
+
+type BodyEditorMode = 'fields' | 'json';
+
+type DropTarget = 'key' | 'value';
+
+interface BodyColors {
+  border: string;
+  text: string;
+}
+
+interface BodyFieldRowsProps {
+  fields: BodyField[];
+  onChange: (fields: BodyField[]) => void;
+  // Array items have no key of their own
+  inArray: boolean;
+  colors: BodyColors;
+  unresolvedClass: (text: string) => string;
+}
+
+function readDragData(e: React.DragEvent): BodyDragData | null {
+  try {
+    const jsonData = e.dataTransfer.getData('application/json');
+    return jsonData ? JSON.parse(jsonData) : null;
+  } catch (error) {
+    console.error('Failed to parse drop data:', error);
+    return null;
+  }
+}
+
+// Keep what still makes sense after a type change: scalar text, or the entries of an object/array
+function changeFieldType(field: BodyField, type: BodyFieldType): BodyField {
+  const wasContainer = isContainerType(getFieldType(field));
+
+  if (isContainerType(type)) {
+    return { key: field.key, value: '', type, children: wasContainer ? field.children || [] : [] };
+  }
+  if (type === 'null') return { key: field.key, value: '', type };
+  if (type === 'boolean') return { key: field.key, value: field.value === 'false' ? 'false' : 'true', type };
+  return { key: field.key, value: wasContainer ? '' : field.value, type };
+}
+
+function BodyFieldRows({ fields, onChange, inArray, colors, unresolvedClass }: BodyFieldRowsProps) {
+  const [dragOver, setDragOver] = useState<{ index: number; target: DropTarget } | null>(null);
+
+  const updateField = (index: number, field: BodyField) => {
+    onChange(fields.map((current, i) => (i === index ? field : current)));
+  };
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  };
+
+  const addField = () => {
+    onChange([...fields, { key: '', value: '', type: 'string' }]);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number, target: DropTarget) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOver(null);
+
+    const dragData = readDragData(e);
+    if (!dragData) return;
+
+    const field = fields[index];
+    const dropped = dragDataToField(dragData);
+
+    if (target === 'value' || dragData.valueOnly) {
+      // Take the value (and its type), keep the key
+      updateField(index, { ...dropped, key: field.key });
+    } else {
+      updateField(index, { ...field, key: dropped.key });
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number, target: DropTarget) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOver({ index, target });
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragOver(null);
+  };
+
+  const dropClass = (index: number, target: DropTarget) =>
+    dragOver?.index === index && dragOver.target === target ? 'border-blue-400 border-2 bg-blue-50' : '';
+
+  const inputClass = `px-1.5 py-0.5 border ${colors.border} rounded text-xs transition-colors`;
+
+  return (
+    <div className="space-y-1">
+      {fields.map((field, index) => {
+        const type = getFieldType(field);
+
+        return (
+          <div key={index}>
+            <div className="flex gap-1">
+              {inArray ? (
+                <span className={`w-8 shrink-0 py-0.5 text-xs font-mono ${colors.text}`}>[{index}]</span>
+              ) : (
+                <input
+                  type="text"
+                  value={field.key}
+                  onChange={(e) => updateField(index, { ...field, key: e.target.value })}
+                  onClick={(e) => e.stopPropagation()}
+                  onDrop={(e) => handleDrop(e, index, 'key')}
+                  onDragOver={(e) => handleDragOver(e, index, 'key')}
+                  onDragLeave={handleDragLeave}
+                  placeholder="key"
+                  className={`flex-1 min-w-0 ${inputClass} ${unresolvedClass(field.key)} ${dropClass(index, 'key')}`}
+                />
+              )}
+              <select
+                value={type}
+                onChange={(e) => updateField(index, changeFieldType(field, e.target.value as BodyFieldType))}
+                onClick={(e) => e.stopPropagation()}
+                className={`px-0.5 py-0.5 border ${colors.border} rounded text-xs bg-white`}
+                title="Value type"
+              >
+                {BODY_FIELD_TYPES.map((option) => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+              {type === 'boolean' ? (
+                <select
+                  value={field.value}
+                  onChange={(e) => updateField(index, { ...field, value: e.target.value })}
+                  onClick={(e) => e.stopPropagation()}
+                  className={`flex-1 min-w-0 ${inputClass} bg-white`}
+                >
+                  <option value="true">true</option>
+                  <option value="false">false</option>
+                </select>
+              ) : type === 'string' || type === 'number' ? (
+                <input
+                  type="text"
+                  value={field.value}
+                  onChange={(e) => updateField(index, { ...field, value: e.target.value })}
+                  onClick={(e) => e.stopPropagation()}
+                  onDrop={(e) => handleDrop(e, index, 'value')}
+                  onDragOver={(e) => handleDragOver(e, index, 'value')}
+                  onDragLeave={handleDragLeave}
+                  placeholder={type === 'number' ? '0' : 'value'}
+                  className={`flex-1 min-w-0 ${inputClass} ${unresolvedClass(field.value)} ${dropClass(index, 'value')}`}
+                />
+              ) : (
+                <div
+                  onDrop={(e) => handleDrop(e, index, 'value')}
+                  onDragOver={(e) => handleDragOver(e, index, 'value')}
+                  onDragLeave={handleDragLeave}
+                  className={`flex-1 min-w-0 py-0.5 text-xs font-mono ${colors.text} rounded ${dropClass(index, 'value')}`}
+                >
+                  {type === 'null' ? 'null' : type === 'object' ? '{ }' : '[ ]'}
+                </div>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeField(index);
+                }}
+                className="px-1.5 text-red-600 hover:bg-red-50 rounded text-xs"
+              >
+                ×
+              </button>
+            </div>
+            {isContainerType(type) && (
+              <div className={`ml-2 mt-1 pl-1.5 border-l-2 ${colors.border}`}>
+                <BodyFieldRows
+                  fields={field.children || []}
+                  onChange={(children) => updateField(index, { ...field, children })}
+                  inArray={type === 'array'}
+                  colors={colors}
+                  unresolvedClass={unresolvedClass}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          addField();
+        }}
+        className={`text-xs ${colors.text} hover:underline`}
+      >
+        {inArray ? '+ Add item' : '+ Add field'}
+      </button>
+    </div>
+  );
+}
+
+export function BodyFieldsEditor({ nodeId, fields, colors }: { nodeId: string; fields: BodyField[]; colors: BodyColors }) {
+  const updateNodeBodyFields = useCanvasStore((state) => state.updateNodeBodyFields);
+  const variables = useCanvasStore(useShallow(getScopedVariables));
+
+  const [mode, setMode] = useState<BodyEditorMode>('fields');
+  const [rawText, setRawText] = useState('');
+  const [rawError, setRawError] = useState<string | null>(null);
+  // Fields the raw text was last synced with; other changes (undo, body history) re-format it
+  const [rawSource, setRawSource] = useState<BodyField[] | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  if (mode === 'json' && fields !== rawSource) {
+    setRawSource(fields);
+    setRawText(formatRawBody(fields));
+    setRawError(null);
+  }
+
+  const unresolvedClass = (text: string) =>
+    findUnresolved(text, variables).length > 0 ? 'border-red-400! bg-red-50' : '';
+
+  const handleRawChange = (text: string) => {
+    setRawText(text);
+    try {
+      const parsed = parseRawBody(text);
+      setRawSource(parsed);
+      setRawError(null);
+      updateNodeBodyFields(nodeId, parsed);
+    } catch (error) {
+      // Invalid text stays in the editor; the block keeps the last valid body
+      setRawError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  // Dropping on the body (not a row) rebuilds the value's path, e.g. user.address.city
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+
+    const dragData = readDragData(e);
+    if (!dragData || dragData.valueOnly) return;
+
+    const path = dragData.path ? parseFieldPath(dragData.path) : [dragData.key];
+    updateNodeBodyFields(nodeId, setFieldAtPath(fields, path, dragDataToField(dragData)));
+  };
+
+  const modeButtonClass = (buttonMode: BodyEditorMode) =>
+    `px-1.5 py-0.5 text-[10px] font-semibold rounded ${mode === buttonMode ? `bg-white ${colors.text}` : 'text-gray-500 hover:text-gray-700'}`;
+
+  return (
+    <div>
+      <div className="flex justify-end mb-1">
+        <div className="flex gap-0.5 p-0.5 bg-black/5 rounded">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setMode('fields');
+            }}
+            className={modeButtonClass('fields')}
+          >
+            Fields
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setMode('json');
+            }}
+            className={modeButtonClass('json')}
+          >
+            JSON
+          </button>
+        </div>
+      </div>
+
+      {mode === 'json' ? (
+        <div>
+          <textarea
+            value={rawText}
+            onChange={(e) => handleRawChange(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            placeholder={'{\n  "key": "value"\n}'}
+            spellCheck={false}
+            rows={8}
+            className={`nodrag nowheel w-full px-1.5 py-1 border ${rawError ? 'border-red-400' : colors.border} rounded text-xs font-mono bg-white`}
+          />
+          {rawError && (
+            <div className="text-xs text-red-600 break-words">{rawError}</div>
+          )}
+        </div>
+      ) : (
+        <div
+          className={`min-h-[40px] rounded p-1 transition-colors ${isDragOver ? 'bg-blue-50 border-2 border-blue-300 border-dashed' : ''}`}
+          onDrop={handleDrop}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setIsDragOver(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            setIsDragOver(false);
+          }}
+        >
+          {fields.length === 0 && (
+            <div className="text-xs text-gray-400 italic text-center py-2">
+              Drag fields from response or click below to add
+            </div>
+          )}
+          <BodyFieldRows
+            fields={fields}
+            onChange={(newFields) => updateNodeBodyFields(nodeId, newFields)}
+            inArray={false}
+            colors={colors}
+            unresolvedClass={unresolvedClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
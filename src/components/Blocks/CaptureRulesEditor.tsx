@@ -0,0 +1,99 @@
+import { nanoid } from 'nanoid';
+import type { CaptureRule, CaptureSource } from '../../types';
+import { useCanvasStore } from '../../store/useCanvasStore';
+
+const sourceLabels: Record<CaptureSource, string> = {
+  body: 'Body',
+  header: 'Header',
+  status: 'Status',
+};
+
+const pathPlaceholders: Record<CaptureSource, string> = {
+  body: '$.token',
+  header: 'X-Request-Id',
+  status: '',
+};
+
+export function CaptureRulesEditor({ nodeId, captures }: { nodeId: string; captures: CaptureRule[] }) {
+  const updateNodeCaptures = useCanvasStore((state) => state.updateNodeCaptures);
+
+  const handleRuleChange = (index: number, changes: Partial<CaptureRule>) => {
+    const newCaptures = captures.map((rule, i) =>
+      i === index ? { ...rule, ...changes } : rule
+    );
+    updateNodeCaptures(nodeId, newCaptures);
+  };
+
+  const addRule = () => {
+    updateNodeCaptures(nodeId, [
+      ...captures,
+      { id: nanoid(), variable: '', source: 'body', path: '' },
+    ]);
+  };
+
+  const removeRule = (index: number) => {
+    updateNodeCaptures(nodeId, captures.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {captures.map((rule, index) => (
+        <div key={rule.id} className="space-y-0.5">
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={rule.variable}
+              onChange={(e) => handleRuleChange(index, { variable: e.target.value })}
+              onClick={(e) => e.stopPropagation()}
+              placeholder="variable"
+              className="w-20 px-1.5 py-0.5 border border-gray-300 rounded text-xs font-mono"
+            />
+            <select
+              value={rule.source}
+              onChange={(e) => handleRuleChange(index, { source: e.target.value as CaptureSource })}
+              onClick={(e) => e.stopPropagation()}
+              className="px-1 py-0.5 border border-gray-300 rounded text-xs bg-white"
+            >
+              {Object.entries(sourceLabels).map(([source, label]) => (
+                <option key={source} value={source}>{label}</option>
+              ))}
+            </select>
+            {rule.source !== 'status' && (
+              <input
+                type="text"
+                value={rule.path}
+                onChange={(e) => handleRuleChange(index, { path: e.target.value })}
+                onClick={(e) => e.stopPropagation()}
+                placeholder={pathPlaceholders[rule.source]}
+                className="flex-1 min-w-0 px-1.5 py-0.5 border border-gray-300 rounded text-xs font-mono"
+              />
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeRule(index);
+              }}
+              className="px-1.5 text-red-600 hover:bg-red-50 rounded text-xs"
+            >
+              ×
+            </button>
+          </div>
+          <div className="text-xs text-gray-500 font-mono truncate pl-1" title={rule.lastValue}>
+            {rule.updatedAt
+              ? <>= {rule.lastValue} <span className="text-gray-400">({new Date(rule.updatedAt).toLocaleTimeString()})</span></>
+              : <span className="italic">not captured yet</span>}
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          addRule();
+        }}
+        className="text-xs text-blue-600 hover:underline"
+      >
+        + Add capture
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Workflow, Square } from 'lucide-react';
+import type { FlowStepStatus } from '../../types';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { isFlowEdge } from '../../utils/flow';
+
+const stepStyles: Record<FlowStepStatus, { label: string; className: string }> = {
+  pending: { label: 'pending', className: 'bg-gray-100 text-gray-600 border-gray-300' },
+  running: { label: 'running…', className: 'bg-indigo-100 text-indigo-700 border-indigo-300 animate-pulse' },
+  success: { label: '✓ passed', className: 'bg-green-100 text-green-700 border-green-300' },
+  failed: { label: '✗ failed', className: 'bg-red-100 text-red-700 border-red-300' },
+  skipped: { label: 'skipped', className: 'bg-gray-100 text-gray-400 border-gray-200' },
+};
+
+/**
+ * Status pill shown on a method block while it is part of a flow run
+ */
+export function FlowStepBadge({ nodeId }: { nodeId: string }) {
+  const status = useCanvasStore((state) => state.flowRun?.steps[nodeId]);
+  const error = useCanvasStore((state) => state.flowRun?.errors[nodeId]);
+
+  if (!status) return null;
+
+  const style = stepStyles[status];
+  return (
+    <div
+      className={`absolute -top-3 right-2 px-1.5 py-0.5 border rounded-full text-[10px] font-semibold ${style.className}`}
+      title={error}
+    >
+      {style.label}
+    </div>
+  );
+}
+
+/**
+ * Run controls, only rendered on the first block of a flow ("then" edges out, none in)
+ */
+export function FlowControls({ nodeId, stopOnFailure }: { nodeId: string; stopOnFailure: boolean }) {
+  const isFlowHead = useCanvasStore((state) =>
+    state.edges.some((e) => e.source === nodeId && isFlowEdge(e)) &&
+    !state.edges.some((e) => e.target === nodeId && isFlowEdge(e))
+  );
+  const isRunning = useCanvasStore((state) =>
+    !!state.flowRun?.running && state.flowRun.startNodeId === nodeId
+  );
+  const runFlow = useCanvasStore((state) => state.runFlow);
+  const stopFlow = useCanvasStore((state) => state.stopFlow);
+  const updateNodeStopOnFailure = useCanvasStore((state) => state.updateNodeStopOnFailure);
+
+  if (!isFlowHead) return null;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-indigo-200 flex items-center gap-2">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          if (isRunning) {
+            stopFlow();
+          } else {
+            runFlow(nodeId);
+          }
+        }}
+        className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-xs font-medium flex items-center gap-1"
+        title={isRunning ? 'Stop the flow after the current step' : 'Run this block and every block chained after it'}
+      >
+        {isRunning ? <Square size={12} /> : <Workflow size={12} />}
+        {isRunning ? 'Stop' : 'Run flow'}
+      </button>
+      <label
+        className="flex items-center gap-1 text-xs text-gray-600"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          type="checkbox"
+          checked={stopOnFailure}
+          onChange={(e) => updateNodeStopOnFailure(nodeId, e.target.checked)}
+        />
+        Stop on failure
+      </label>
+    </div>
+  );
+}
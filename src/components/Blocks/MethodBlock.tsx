@@ -1,10 +1,18 @@
 import { useState, useRef } from 'react';
 import { Handle, Position, type NodeProps } from 'reactflow';
 import type { BlockData, HttpMethod } from '../../types';
-import { useCanvasStore } from '../../store/useCanvasStore';
-import { Settings, Play, Copy, History } from 'lucide-react';
-import axios from 'axios';
+import { useShallow } from 'zustand/react/shallow';
+import { useCanvasStore, getScopedVariables } from '../../store/useCanvasStore';
+import { Settings, Play, Copy, History, AlertTriangle, Magnet, FlaskConical, Terminal } from 'lucide-react';
 import { RequestBodyHistoryModal } from '../Modals/RequestBodyHistoryModal';
+import { CaptureRulesEditor } from './CaptureRulesEditor';
+import { AssertionsEditor } from './AssertionsEditor';
+import { RequestBodyEditor } from './RequestBodyEditor';
+import { FlowControls, FlowStepBadge } from './FlowControls';
+import { FLOW_HANDLE_ID } from '../../utils/flow';
+import { DEFAULT_HEADERS, methodHasBody } from '../../utils/requestBuilder';
+import { findUnresolved } from '../../utils/template';
+import { toCurl } from '../../utils/curl';
 
 const methodColors: Record<HttpMethod, { bg: string; border: string; text: string }> = {
   GET: { bg: 'bg-green-100', border: 'border-green-400', text: 'text-green-700' },
@@ -23,28 +31,51 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
   const isInActivePath = useCanvasStore((state) =>
     state.activePathNodes.includes(id)
   );
-  const getComputedUrl = useCanvasStore((state) => state.getComputedUrl);
   const updateNodeBodyFields = useCanvasStore((state) => state.updateNodeBodyFields);
   const updateNodeHeaders = useCanvasStore((state) => state.updateNodeHeaders);
-  const setResponse = useCanvasStore((state) => state.setResponse);
-  const addBodyHistory = useCanvasStore((state) => state.addBodyHistory);
+  const updateNodeBearerToken = useCanvasStore((state) => state.updateNodeBearerToken);
+  const updateNodeTags = useCanvasStore((state) => state.updateNodeTags);
+  const sendMethodNode = useCanvasStore((state) => state.sendMethodNode);
+  const buildRequestForNode = useCanvasStore((state) => state.buildRequestForNode);
+  const variables = useCanvasStore(useShallow(getScopedVariables));
 
   const [isEditingBody, setIsEditingBody] = useState(false);
+  const [isEditingCaptures, setIsEditingCaptures] = useState(false);
+  const [isEditingAssertions, setIsEditingAssertions] = useState(false);
+  // Draft of the tags while the input is focused; otherwise it shows data.tags
+  const [tagsInput, setTagsInput] = useState<string | null>(null);
   const [showBodyHistoryModal, setShowBodyHistoryModal] = useState(false);
-  const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
-  const [dragOverField, setDragOverField] = useState<'key' | 'value' | 'container' | null>(null);
   const [loading, setLoading] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [copiedCurl, setCopiedCurl] = useState(false);
   const historyButtonRef = useRef<HTMLButtonElement>(null);
 
-  const bodyFields = data.bodyFields || [];
-  const headers = data.headers || [{ key: 'Content-Type', value: 'application/json' }];
+  const headers = data.headers || DEFAULT_HEADERS;
   const bearerToken = data.bearerToken || '';
-  const hasBody = ['POST', 'PUT', 'PATCH'].includes(method);
+  const captures = data.captures || [];
+  const assertions = data.assertions || [];
+  const testResults = useCanvasStore((state) => state.testResults[id]);
+  const passedCount = testResults?.filter((result) => result.passed).length ?? 0;
+  const hasBody = methodHasBody(method);
   const isActive = activePathId === id;
 
   // ✨ OPTIMIZED: Use store's getComputedUrl instead of duplicate computation
-  const computedUrl = isActive ? getComputedUrl() : null;
+  const computedUrl = useCanvasStore((state) =>
+    state.activePathId === id ? state.getComputedUrl() : null
+  );
+  // Placeholders the active environment can't resolve, checked before send
+  const unresolved = useCanvasStore(useShallow((state) =>
+    state.activePathId === id ? state.buildRequestForNode(id)?.unresolved ?? [] : []
+  ));
+  // Required query parameters and headers left empty
+  const missing = useCanvasStore(useShallow((state) =>
+    state.activePathId === id ? state.buildRequestForNode(id)?.missing ?? [] : []
+  ));
+  const blocked = unresolved.length > 0 || missing.length > 0;
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const unresolvedClass = (text: string) =>
+    findUnresolved(text, variables).length > 0 ? 'border-red-400! bg-red-50' : '';
 
 
   const handleBodyClick = (e: React.MouseEvent) => {
@@ -52,24 +83,10 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
     setIsEditingBody(!isEditingBody);
   };
 
-  const handleFieldChange = (index: number, field: 'key' | 'value', newValue: string) => {
-    const newFields = [...bodyFields];
-    newFields[index][field] = newValue;
-    updateNodeBodyFields(id, newFields);
-  };
-
-  const addBodyField = () => {
-    updateNodeBodyFields(id, [...bodyFields, { key: '', value: '' }]);
-  };
-
-  const removeBodyField = (index: number) => {
-    const newFields = bodyFields.filter((_, i) => i !== index);
-    updateNodeBodyFields(id, newFields);
-  };
-
   const handleHeaderChange = (index: number, field: 'key' | 'value', newValue: string) => {
-    const newHeaders = [...headers];
-    newHeaders[index][field] = newValue;
+    const newHeaders = headers.map((header, i) =>
+      i === index ? { ...header, [field]: newValue } : header
+    );
     updateNodeHeaders(id, newHeaders);
   };
 
@@ -90,227 +107,123 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
     }
   };
 
-  const handleBearerTokenChange = (newToken: string) => {
-    const nodes = useCanvasStore.getState().nodes;
-    useCanvasStore.setState({
-      nodes: nodes.map((node) =>
-        node.id === id
-          ? { ...node, data: { ...node.data, bearerToken: newToken } }
-          : node
-      ),
-    });
+  const handleCopyCurl = () => {
+    const request = buildRequestForNode(id);
+    if (request) {
+      navigator.clipboard.writeText(toCurl(request));
+      setCopiedCurl(true);
+      setTimeout(() => setCopiedCurl(false), 2000);
+    }
   };
 
   const handleSend = async () => {
-    if (!computedUrl) return;
-
-    // Save body to history before sending (if has body fields)
-    if (hasBody && bodyFields.length > 0) {
-      addBodyHistory(method, computedUrl, bodyFields);
-    }
+    if (!computedUrl || blocked) return;
 
     setLoading(true);
-    const startTime = Date.now();
+    setSendError(null);
 
     try {
-      const headersObj = headers.reduce((acc, { key, value }) => {
-        if (key && value) acc[key] = value;
-        return acc;
-      }, {} as Record<string, string>);
-
-      // Automatically add Authorization header if bearer token is provided
-      if (bearerToken) {
-        headersObj['Authorization'] = `Bearer ${bearerToken}`;
-      }
-
-      const config: any = {
-        method,
-        url: computedUrl,
-        headers: headersObj,
-      };
-
-      if (hasBody && bodyFields.length > 0) {
-        const bodyObj = bodyFields.reduce((acc, { key, value }) => {
-          if (key) acc[key] = value;
-          return acc;
-        }, {} as Record<string, string>);
-        config.data = bodyObj;
-      }
-
-      const response = await axios(config);
-      const endTime = Date.now();
-
-      setResponse({
-        status: response.status,
-        statusText: response.statusText,
-        data: response.data,
-        headers: response.headers as Record<string, string>,
-        time: endTime - startTime,
-        size: JSON.stringify(response.data).length,
-      }, computedUrl, method);
-    } catch (error: any) {
-      const endTime = Date.now();
-      setResponse({
-        status: error.response?.status || 0,
-        statusText: error.response?.statusText || 'Error',
-        data: error.response?.data || { error: error.message },
-        headers: error.response?.headers || {},
-        time: endTime - startTime,
-        size: 0,
-      }, computedUrl, method);
+      await sendMethodNode(id);
+    } catch (error) {
+      setSendError(error instanceof Error ? error.message : 'Send failed');
     } finally {
       setLoading(false);
     }
   };
 
-  const handleDrop = (e: React.DragEvent, targetIndex?: number, targetField?: 'key' | 'value') => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragOverIndex(null);
-    setDragOverField(null);
-
-    try {
-      const jsonData = e.dataTransfer.getData('application/json');
-      if (!jsonData) return;
-
-      const dragData = JSON.parse(jsonData);
-      const { key, value, valueOnly } = dragData;
-
-      // If dropping on the container (not a specific field), add new field
-      if (targetIndex === undefined) {
-        if (!valueOnly) {
-          updateNodeBodyFields(id, [...bodyFields, { key, value }]);
-        }
-        return;
-      }
-
-      // If dropping on a specific field
-      const newFields = [...bodyFields];
-
-      if (targetField === 'value' || valueOnly) {
-        // Update only the value
-        newFields[targetIndex].value = value;
-      } else if (targetField === 'key') {
-        // Update the key
-        newFields[targetIndex].key = key;
-      } else {
-        // Update both
-        newFields[targetIndex] = { key, value };
-      }
-
-      updateNodeBodyFields(id, newFields);
-    } catch (error) {
-      console.error('Failed to parse drop data:', error);
-    }
-  };
-
-  const handleDragOver = (e: React.DragEvent, index?: number, field?: 'key' | 'value') => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragOverIndex(index ?? null);
-    setDragOverField(field ?? 'container');
-  };
-
-  const handleDragLeave = (e: React.DragEvent) => {
-    e.preventDefault();
-    e.stopPropagation();
-    setDragOverIndex(null);
-    setDragOverField(null);
-  };
-
   return (
-    <div className={`px-4 py-3 ${colors.bg} border-2 ${colors.border} ${isInActivePath ? 'ring-2 ring-opacity-50' : ''} rounded-lg shadow-md min-w-[160px] cursor-pointer transition-all`}>
+    <div className={`px-4 py-3 ${colors.bg} border-2 ${colors.border} ${isInActivePath ? 'ring-2 ring-opacity-50' : ''} rounded-lg shadow-md min-w-[160px] cursor-pointer transition-all relative`}>
+      <FlowStepBadge nodeId={id} />
       <div className="flex items-center justify-between mb-1">
         <div className={`text-xs ${colors.text} font-semibold`}>METHOD</div>
-        {hasBody && (
-          <div className="flex items-center gap-1">
-            <button
-              ref={historyButtonRef}
-              onClick={(e) => {
-                e.stopPropagation();
-                setShowBodyHistoryModal(!showBodyHistoryModal);
-              }}
-              className={`p-1 hover:${colors.bg === 'bg-blue-100' ? 'bg-blue-200' : colors.bg.replace('100', '200')} rounded`}
-              title="View body history"
-            >
-              <History size={14} className={colors.text} />
-            </button>
-            <button
-              onClick={handleBodyClick}
-              className={`p-1 hover:${colors.bg === 'bg-blue-100' ? 'bg-blue-200' : colors.bg.replace('100', '200')} rounded`}
-              title="Edit request body"
-            >
-              <Settings size={14} className={colors.text} />
-            </button>
-          </div>
-        )}
-      </div>
-      <div className={`text-lg font-bold ${colors.text} text-center`}>
-        {method}
-      </div>
-
-      {hasBody && isEditingBody && (
-        <div className="mt-2 pt-2 border-t border-opacity-30" style={{ borderColor: colors.border.replace('border-', '') }}>
-          <div className={`text-xs ${colors.text} mb-1`}>Request Body:</div>
-          <div
-            className={`space-y-1 min-h-[40px] rounded p-1 transition-colors ${dragOverField === 'container' && dragOverIndex === null ? 'bg-blue-50 border-2 border-blue-300 border-dashed' : ''
-              }`}
-            onDrop={(e) => handleDrop(e)}
-            onDragOver={(e) => handleDragOver(e)}
-            onDragLeave={handleDragLeave}
+        <div className="flex items-center gap-1">
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsEditingAssertions(!isEditingAssertions);
+            }}
+            className={`p-1 hover:${colors.bg === 'bg-blue-100' ? 'bg-blue-200' : colors.bg.replace('100', '200')} rounded flex items-center gap-0.5`}
+            title="Edit assertions"
+          >
+            <FlaskConical size={14} className={colors.text} />
+            {testResults && testResults.length > 0 ? (
+              <span className={`text-[10px] font-semibold px-1 rounded ${passedCount === testResults.length ? 'bg-green-200 text-green-800' : 'bg-red-200 text-red-800'}`}>
+                {passedCount}/{testResults.length}
+              </span>
+            ) : assertions.length > 0 && (
+              <span className={`text-[10px] font-semibold ${colors.text}`}>{assertions.length}</span>
+            )}
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setIsEditingCaptures(!isEditingCaptures);
+            }}
+            className={`p-1 hover:${colors.bg === 'bg-blue-100' ? 'bg-blue-200' : colors.bg.replace('100', '200')} rounded flex items-center gap-0.5`}
+            title="Capture response values into variables"
           >
-            {bodyFields.map((field, index) => (
-              <div key={index} className="flex gap-1">
-                <input
-                  type="text"
-                  value={field.key}
-                  onChange={(e) => handleFieldChange(index, 'key', e.target.value)}
-                  onClick={(e) => e.stopPropagation()}
-                  onDrop={(e) => handleDrop(e, index, 'key')}
-                  onDragOver={(e) => handleDragOver(e, index, 'key')}
-                  onDragLeave={handleDragLeave}
-                  placeholder="key"
-                  className={`flex-1 px-1.5 py-0.5 border ${colors.border} rounded text-xs transition-colors ${dragOverIndex === index && dragOverField === 'key' ? 'border-blue-400 border-2 bg-blue-50' : ''
-                    }`}
-                />
-                <input
-                  type="text"
-                  value={field.value}
-                  onChange={(e) => handleFieldChange(index, 'value', e.target.value)}
-                  onClick={(e) => e.stopPropagation()}
-                  onDrop={(e) => handleDrop(e, index, 'value')}
-                  onDragOver={(e) => handleDragOver(e, index, 'value')}
-                  onDragLeave={handleDragLeave}
-                  placeholder="value"
-                  className={`flex-1 px-1.5 py-0.5 border ${colors.border} rounded text-xs transition-colors ${dragOverIndex === index && dragOverField === 'value' ? 'border-blue-400 border-2 bg-blue-50' : ''
-                    }`}
-                />
+            <Magnet size={14} className={colors.text} />
+            {captures.length > 0 && (
+              <span className={`text-[10px] font-semibold ${colors.text}`}>{captures.length}</span>
+            )}
+          </button>
+          {hasBody && (
+            <>
+              {(data.bodyType || 'json') === 'json' && (
                 <button
+                  ref={historyButtonRef}
                   onClick={(e) => {
                     e.stopPropagation();
-                    removeBodyField(index);
+                    setShowBodyHistoryModal(!showBodyHistoryModal);
                   }}
-                  className={`px-1.5 text-red-600 hover:bg-red-50 rounded text-xs`}
+                  className={`p-1 hover:${colors.bg === 'bg-blue-100' ? 'bg-blue-200' : colors.bg.replace('100', '200')} rounded`}
+                  title="View body history"
                 >
-                  ×
+                  <History size={14} className={colors.text} />
                 </button>
-              </div>
-            ))}
-            {bodyFields.length === 0 && (
-              <div className="text-xs text-gray-400 italic text-center py-2">
-                Drag fields from response or click below to add
-              </div>
-            )}
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                addBodyField();
-              }}
-              className={`text-xs ${colors.text} hover:underline`}
-            >
-              + Add field
-            </button>
-          </div>
+              )}
+              <button
+                onClick={handleBodyClick}
+                className={`p-1 hover:${colors.bg === 'bg-blue-100' ? 'bg-blue-200' : colors.bg.replace('100', '200')} rounded`}
+                title="Edit request body"
+              >
+                <Settings size={14} className={colors.text} />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      <div className={`text-lg font-bold ${colors.text} text-center`}>
+        {method}
+      </div>
+      {data.removedFromSpec && (
+        <div
+          className="mt-1 px-1.5 py-0.5 bg-amber-100 border border-amber-300 rounded text-[10px] font-semibold text-amber-700 text-center"
+          title="The last OpenAPI re-import no longer has this endpoint"
+        >
+          Removed from spec
+        </div>
+      )}
+
+      <FlowControls nodeId={id} stopOnFailure={data.stopOnFailure ?? true} />
+
+      {isEditingAssertions && (
+        <div className="mt-2 pt-2 border-t border-opacity-30" style={{ borderColor: colors.border.replace('border-', '') }}>
+          <div className={`text-xs ${colors.text} mb-1`}>Assertions:</div>
+          <AssertionsEditor nodeId={id} assertions={assertions} />
+        </div>
+      )}
+
+      {isEditingCaptures && (
+        <div className="mt-2 pt-2 border-t border-opacity-30" style={{ borderColor: colors.border.replace('border-', '') }}>
+          <div className={`text-xs ${colors.text} mb-1`}>Captures:</div>
+          <CaptureRulesEditor nodeId={id} captures={captures} />
+        </div>
+      )}
+
+      {hasBody && isEditingBody && (
+        <div className="mt-2 pt-2 border-t border-opacity-30" style={{ borderColor: colors.border.replace('border-', '') }}>
+          <RequestBodyEditor nodeId={id} data={data} colors={colors} />
         </div>
       )}
 
@@ -320,20 +233,32 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
             <div className="flex items-center justify-between mb-1">
               <div className="text-xs font-semibold text-gray-700">URL:</div>
               {computedUrl && (
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleCopyUrl();
-                  }}
-                  className="p-1 hover:bg-gray-100 rounded transition-colors"
-                  title="Copy URL"
-                >
-                  {copied ? (
-                    <Copy size={12} className="text-green-600" />
-                  ) : (
-                    <Copy size={12} className="text-gray-600" />
-                  )}
-                </button>
+                <div className="flex items-center">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleCopyUrl();
+                    }}
+                    className="p-1 hover:bg-gray-100 rounded transition-colors"
+                    title="Copy URL"
+                  >
+                    {copied ? (
+                      <Copy size={12} className="text-green-600" />
+                    ) : (
+                      <Copy size={12} className="text-gray-600" />
+                    )}
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleCopyCurl();
+                    }}
+                    className="p-1 hover:bg-gray-100 rounded transition-colors"
+                    title="Copy as cURL (variables resolved)"
+                  >
+                    <Terminal size={12} className={copiedCurl ? 'text-green-600' : 'text-gray-600'} />
+                  </button>
+                </div>
               )}
             </div>
             <div className="text-xs text-gray-600 font-mono break-all p-1 bg-gray-50 rounded">
@@ -341,17 +266,35 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
             </div>
           </div>
 
+          <div className="mb-2">
+            <input
+              type="text"
+              value={tagsInput ?? (data.tags || []).join(', ')}
+              onFocus={() => setTagsInput((data.tags || []).join(', '))}
+              onChange={(e) => setTagsInput(e.target.value)}
+              onBlur={() => {
+                if (tagsInput !== null) {
+                  updateNodeTags(id, tagsInput.split(',').map((tag) => tag.trim()).filter(Boolean));
+                }
+                setTagsInput(null);
+              }}
+              onClick={(e) => e.stopPropagation()}
+              placeholder="Tags (comma-separated, for collection runs)"
+              className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+            />
+          </div>
+
           <div className="mb-2">
             <input
               type="text"
               value={bearerToken}
               onChange={(e) => {
                 e.stopPropagation();
-                handleBearerTokenChange(e.target.value);
+                updateNodeBearerToken(id, e.target.value);
               }}
               onClick={(e) => e.stopPropagation()}
-              placeholder="Enter token (auto-adds to Authorization header)"
-              className="w-full px-2 py-1 border border-gray-300 rounded text-xs"
+              placeholder="Enter token or {{token}} (auto-adds to Authorization header)"
+              className={`w-full px-2 py-1 border border-gray-300 rounded text-xs ${unresolvedClass(bearerToken)}`}
             />
           </div>
 
@@ -366,15 +309,15 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
                     onChange={(e) => handleHeaderChange(index, 'key', e.target.value)}
                     onClick={(e) => e.stopPropagation()}
                     placeholder="Key"
-                    className="flex-1 px-1.5 py-0.5 border border-gray-300 rounded text-xs"
+                    className={`flex-1 px-1.5 py-0.5 border border-gray-300 rounded text-xs ${unresolvedClass(header.key)}`}
                   />
                   <input
                     type="text"
                     value={header.value}
                     onChange={(e) => handleHeaderChange(index, 'value', e.target.value)}
                     onClick={(e) => e.stopPropagation()}
-                    placeholder="Value"
-                    className="flex-1 px-1.5 py-0.5 border border-gray-300 rounded text-xs"
+                    placeholder={header.required ? 'Value (required)' : 'Value'}
+                    className={`flex-1 px-1.5 py-0.5 border border-gray-300 rounded text-xs ${unresolvedClass(header.value)} ${header.required && missing.includes(header.key) ? 'border-red-400! bg-red-50' : ''}`}
                   />
                   <button
                     onClick={(e) => {
@@ -399,12 +342,33 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
             </div>
           </div>
 
+          {unresolved.length > 0 && (
+            <div className="mb-2 p-1.5 bg-red-50 border border-red-200 rounded text-xs text-red-700 flex items-start gap-1">
+              <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+              <span>
+                Unresolved: <span className="font-mono">{unresolved.join(', ')}</span>
+              </span>
+            </div>
+          )}
+          {missing.length > 0 && (
+            <div className="mb-2 p-1.5 bg-red-50 border border-red-200 rounded text-xs text-red-700 flex items-start gap-1">
+              <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+              <span>
+                Required: <span className="font-mono">{missing.join(', ')}</span>
+              </span>
+            </div>
+          )}
+          {sendError && (
+            <div className="mb-2 text-xs text-red-600">{sendError}</div>
+          )}
+
           <button
             onClick={(e) => {
               e.stopPropagation();
               handleSend();
             }}
-            disabled={loading || !computedUrl}
+            disabled={loading || !computedUrl || blocked}
+            title={unresolved.length > 0 ? 'Resolve all variables before sending' : missing.length > 0 ? 'Fill in the required parameters before sending' : 'Send request'}
             className="w-full px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded font-medium text-xs flex items-center justify-center gap-2"
           >
             {loading ? (
@@ -432,6 +396,9 @@ export function MethodBlock({ data, id }: NodeProps<BlockData>) {
       )}
 
       <Handle type="target" position={Position.Left} className="bg-gray-500!" />
+      {/* "Then" handles chain method blocks into a flow */}
+      <Handle type="target" position={Position.Top} id={FLOW_HANDLE_ID} className="bg-indigo-500!" />
+      <Handle type="source" position={Position.Bottom} id={FLOW_HANDLE_ID} className="bg-indigo-500!" />
     </div>
   );
 }
@@ -0,0 +1,122 @@
+import { Handle, Position, type NodeProps } from 'reactflow';
+import { type BlockData, type QueryArrayStyle } from '../../types';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { buildQueryString } from '../../utils/queryString';
+
+const arrayStyles: Array<{ value: QueryArrayStyle; label: string }> = [
+  { value: 'repeat', label: 'a=1&a=2' },
+  { value: 'comma', label: 'a=1,2' },
+  { value: 'brackets', label: 'a[]=1&a[]=2' },
+];
+
+export function QueryBlock({ data, id }: NodeProps<BlockData>) {
+  const updateNodeQueryParams = useCanvasStore((state) => state.updateNodeQueryParams);
+  const updateNodeArrayStyle = useCanvasStore((state) => state.updateNodeArrayStyle);
+
+  // ✨ OPTIMIZED: Simple selector instead of O(N×E) path tracing
+  const isInActivePath = useCanvasStore((state) =>
+    state.activePathNodes.includes(id)
+  );
+
+  const queryParams = data.queryParams || [];
+  const arrayStyle = data.arrayStyle || 'repeat';
+  const preview = buildQueryString(queryParams, arrayStyle);
+
+  const handleParamChange = (index: number, field: 'key' | 'value', newValue: string) => {
+    const newParams = queryParams.map((param, i) =>
+      i === index ? { ...param, [field]: newValue } : param
+    );
+    updateNodeQueryParams(id, newParams);
+  };
+
+  const toggleParam = (index: number) => {
+    const newParams = queryParams.map((param, i) =>
+      i === index ? { ...param, enabled: !param.enabled } : param
+    );
+    updateNodeQueryParams(id, newParams);
+  };
+
+  const addParam = () => {
+    updateNodeQueryParams(id, [...queryParams, { key: '', value: '', enabled: true }]);
+  };
+
+  const removeParam = (index: number) => {
+    updateNodeQueryParams(id, queryParams.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className={`px-4 py-3 bg-teal-100 border-2 ${isInActivePath ? 'border-teal-600 ring-2 ring-teal-400' : 'border-teal-400'} rounded-lg shadow-md min-w-[220px] transition-all`}>
+      <div className="flex items-center justify-between mb-1">
+        <div className="text-xs text-teal-600 font-semibold">QUERY</div>
+        <select
+          value={arrayStyle}
+          onChange={(e) => updateNodeArrayStyle(id, e.target.value as QueryArrayStyle)}
+          onClick={(e) => e.stopPropagation()}
+          className="text-xs bg-teal-50 border border-teal-300 rounded px-1 text-teal-700"
+          title="How repeated keys are sent"
+        >
+          {arrayStyles.map((style) => (
+            <option key={style.value} value={style.value}>{style.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        {queryParams.map((param, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={param.enabled}
+              onChange={() => toggleParam(index)}
+              onClick={(e) => e.stopPropagation()}
+              title={param.required ? 'Required parameter' : param.enabled ? 'Disable parameter' : 'Enable parameter'}
+            />
+            <input
+              type="text"
+              value={param.key}
+              onChange={(e) => handleParamChange(index, 'key', e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              placeholder="key"
+              className={`flex-1 min-w-0 px-1.5 py-0.5 border border-teal-300 rounded text-xs ${param.enabled ? '' : 'opacity-50'}`}
+            />
+            <input
+              type="text"
+              value={param.value}
+              onChange={(e) => handleParamChange(index, 'value', e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              placeholder={param.required ? 'required' : 'value'}
+              className={`flex-1 min-w-0 px-1.5 py-0.5 border border-teal-300 rounded text-xs ${param.enabled ? '' : 'opacity-50'} ${param.required && (!param.enabled || !param.value.trim()) ? 'border-red-400! bg-red-50' : ''}`}
+            />
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                removeParam(index);
+              }}
+              className="px-1.5 text-red-600 hover:bg-red-50 rounded text-xs"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            addParam();
+          }}
+          className="text-xs text-teal-700 hover:underline"
+        >
+          + Add param
+        </button>
+      </div>
+
+      {preview && (
+        <div className="mt-2 text-xs text-teal-700 font-mono break-all bg-teal-50 rounded p-1">
+          ?{preview}
+        </div>
+      )}
+
+      <Handle type="target" position={Position.Left} className="bg-teal-500!" />
+      <Handle type="source" position={Position.Right} className="bg-teal-500!" />
+    </div>
+  );
+}
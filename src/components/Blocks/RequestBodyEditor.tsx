@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { Paperclip } from 'lucide-react';
+import type { BlockData, BodyType, FormField } from '../../types';
+import { useCanvasStore, getScopedVariables } from '../../store/useCanvasStore';
+import { findUnresolved } from '../../utils/template';
+import { BODY_TYPES } from '../../utils/requestBody';
+import { BodyFieldsEditor } from './BodyFieldsEditor';
+
+interface BodyColors {
+  border: string;
+  text: string;
+}
+
+// Placeholders are not XML, so they are swapped for text before checking well-formedness
+function findXmlError(text: string): string | null {
+  if (!text.trim()) return null;
+  const doc = new DOMParser().parseFromString(text.replace(/\{\{[^}]*\}\}/g, 'x'), 'application/xml');
+  const error = doc.querySelector('parsererror');
+  return error ? 'XML is not well-formed' : null;
+}
+
+function FormFieldRow({ field, multipart, colors, unresolvedClass, onChange, onRemove }: {
+  field: FormField;
+  multipart: boolean;
+  colors: BodyColors;
+  unresolvedClass: (text: string) => string;
+  onChange: (field: FormField) => void;
+  onRemove: () => void;
+}) {
+  const storeFile = useCanvasStore((state) => state.storeFile);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const isFile = multipart && !!field.isFile;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    storeFile(file)
+      .then((info) => {
+        setFileError(null);
+        onChange({ ...field, value: '', file: info });
+      })
+      .catch(() => setFileError('Could not store the file'));
+  };
+
+  const inputClass = `px-1.5 py-0.5 border ${colors.border} rounded text-xs`;
+
+  return (
+    <div>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={field.key}
+          onChange={(e) => onChange({ ...field, key: e.target.value })}
+          onClick={(e) => e.stopPropagation()}
+          placeholder="key"
+          className={`flex-1 min-w-0 ${inputClass} ${unresolvedClass(field.key)}`}
+        />
+        {multipart && (
+          <select
+            value={isFile ? 'file' : 'text'}
+            onChange={(e) => onChange({ key: field.key, value: '', isFile: e.target.value === 'file' || undefined })}
+            onClick={(e) => e.stopPropagation()}
+            className={`px-0.5 py-0.5 border ${colors.border} rounded text-xs bg-white`}
+          >
+            <option value="text">text</option>
+            <option value="file">file</option>
+          </select>
+        )}
+        {isFile ? (
+          <>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                fileInputRef.current?.click();
+              }}
+              className={`flex-1 min-w-0 ${inputClass} bg-white text-left truncate flex items-center gap-1 ${field.file ? 'text-gray-700' : 'text-gray-400 italic'}`}
+              title={field.file ? `${field.file.name} (${field.file.size} bytes)` : 'Choose a file'}
+            >
+              <Paperclip size={10} className="shrink-0" />
+              {field.file ? field.file.name : field.value ? `Choose ${field.value}` : 'Choose file…'}
+            </button>
+            <input ref={fileInputRef} type="file" onChange={handleFileChange} className="hidden" />
+          </>
+        ) : (
+          <input
+            type="text"
+            value={field.value}
+            onChange={(e) => onChange({ ...field, value: e.target.value })}
+            onClick={(e) => e.stopPropagation()}
+            placeholder="value"
+            className={`flex-1 min-w-0 ${inputClass} ${unresolvedClass(field.value)}`}
+          />
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="px-1.5 text-red-600 hover:bg-red-50 rounded text-xs"
+        >
+          ×
+        </button>
+      </div>
+      {fileError && <div className="text-xs text-red-600">{fileError}</div>}
+    </div>
+  );
+}
+
+export function RequestBodyEditor({ nodeId, data, colors }: { nodeId: string; data: BlockData; colors: BodyColors }) {
+  const updateNodeBodyType = useCanvasStore((state) => state.updateNodeBodyType);
+  const updateNodeFormFields = useCanvasStore((state) => state.updateNodeFormFields);
+  const updateNodeRawBody = useCanvasStore((state) => state.updateNodeRawBody);
+  const variables = useCanvasStore(useShallow(getScopedVariables));
+
+  const bodyType = data.bodyType || 'json';
+  const formFields = data.formFields || [];
+  const rawBody = data.rawBody || '';
+  const xmlError = bodyType === 'xml' ? findXmlError(rawBody) : null;
+
+  const unresolvedClass = (text: string) =>
+    findUnresolved(text, variables).length > 0 ? 'border-red-400! bg-red-50' : '';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <div className={`text-xs ${colors.text}`}>Request Body:</div>
+        <select
+          value={bodyType}
+          onChange={(e) => updateNodeBodyType(nodeId, e.target.value as BodyType)}
+          onClick={(e) => e.stopPropagation()}
+          className={`px-1 py-0.5 border ${colors.border} rounded text-xs bg-white`}
+          title="Body type (sets the Content-Type)"
+        >
+          {BODY_TYPES.map((type) => (
+            <option key={type.id} value={type.id}>{type.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {bodyType === 'json' && (
+        <BodyFieldsEditor nodeId={nodeId} fields={data.bodyFields || []} colors={colors} />
+      )}
+
+      {(bodyType === 'form' || bodyType === 'multipart') && (
+        <div className="space-y-1 p-1">
+          {formFields.map((field, index) => (
+            <FormFieldRow
+              key={index}
+              field={field}
+              multipart={bodyType === 'multipart'}
+              colors={colors}
+              unresolvedClass={unresolvedClass}
+              onChange={(changed) => updateNodeFormFields(nodeId, formFields.map((current, i) => (i === index ? changed : current)))}
+              onRemove={() => updateNodeFormFields(nodeId, formFields.filter((_, i) => i !== index))}
+            />
+          ))}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              updateNodeFormFields(nodeId, [...formFields, { key: '', value: '' }]);
+            }}
+            className={`text-xs ${colors.text} hover:underline`}
+          >
+            + Add field
+          </button>
+        </div>
+      )}
+
+      {(bodyType === 'xml' || bodyType === 'text') && (
+        <div>
+          <textarea
+            value={rawBody}
+            onChange={(e) => updateNodeRawBody(nodeId, e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            placeholder={bodyType === 'xml' ? '<request>\n  <id>{{id}}</id>\n</request>' : 'Request body'}
+            spellCheck={false}
+            rows={8}
+            className={`nodrag nowheel w-full px-1.5 py-1 border ${xmlError ? 'border-red-400' : colors.border} rounded text-xs font-mono bg-white ${unresolvedClass(rawBody)}`}
+          />
+          {xmlError && <div className="text-xs text-red-600">{xmlError}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
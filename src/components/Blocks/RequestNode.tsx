@@ -2,135 +2,66 @@ import { useState } from 'react';
 import { Handle, Position, type NodeProps } from 'reactflow';
 import { Play } from 'lucide-react';
 import type { BlockData } from '../../types';
-import { useCanvasStore } from '../../store/useCanvasStore';
-import axios from 'axios';
+import { useCanvasStore, getScopedVariables } from '../../store/useCanvasStore';
+import { DEFAULT_HEADERS } from '../../utils/requestBuilder';
+import { interpolate } from '../../utils/template';
 
 export function RequestNode({ data, id }: NodeProps<BlockData>) {
-    const nodes = useCanvasStore((state) => state.nodes);
-    const edges = useCanvasStore((state) => state.edges);
     const activePathId = useCanvasStore((state) => state.activePathId);
-    const variables = useCanvasStore((state) => state.variables);
     const setResponse = useCanvasStore((state) => state.setResponse);
     const updateNodeHeaders = useCanvasStore((state) => state.updateNodeHeaders);
 
     const [loading, setLoading] = useState(false);
-    const headers = data.headers || [{ key: 'Content-Type', value: 'application/json' }];
-
-    // Compute URL and method from active path
-    let url: string | null = null;
-    let method: string = 'GET';
-    let bodyFields: Array<{ key: string; value: string }> = [];
-
-    if (activePathId) {
-        const pathNodeIds: string[] = [];
-        const visitedNodes = new Set<string>();
-
-        const traceBackwards = (nodeId: string): boolean => {
-            if (visitedNodes.has(nodeId)) return false;
-            visitedNodes.add(nodeId);
-
-            const node = nodes.find((n) => n.id === nodeId);
-            if (!node) return false;
-
-            pathNodeIds.unshift(nodeId);
-
-            if (node.data.type === 'baseUrl') {
-                return true;
-            }
-
-            const incomingEdges = edges.filter((e) => e.target === nodeId);
-            for (const edge of incomingEdges) {
-                if (traceBackwards(edge.source)) {
-                    return true;
-                }
-            }
-
-            pathNodeIds.shift();
-            return false;
-        };
-
-        if (traceBackwards(activePathId)) {
-            const path: string[] = [];
-            for (const nodeId of pathNodeIds) {
-                const node = nodes.find((n) => n.id === nodeId);
-                if (!node) continue;
-
-                if (node.data.type === 'baseUrl') {
-                    path.push(node.data.value);
-                } else if (node.data.type === 'resource') {
-                    let value = node.data.value;
-                    const isParam = /\{(.+)\}/.test(value);
-                    if (isParam) {
-                        value = value.replace(/\{(\w+)\}/g, (_, key) => {
-                            return variables[key] || `{${key}}`;
-                        });
-                    }
-                    path.push(value);
-                } else if (node.data.type === 'method') {
-                    method = node.data.method || 'GET';
-                    bodyFields = node.data.bodyFields || [];
-                }
-            }
-
-            url = path.join('/').replace(/([^:]\/)\/+/g, '$1');
-        }
-    }
+    const [sendError, setSendError] = useState<string | null>(null);
+    const headers = data.headers || DEFAULT_HEADERS;
+
+    // Compute URL and method from active path through the shared request builder
+    const url = useCanvasStore((state) => state.getComputedUrl());
+    const method = useCanvasStore((state) => {
+        const methodNode = state.nodes.find((n) => n.id === state.activePathId);
+        return methodNode?.data.method || 'GET';
+    });
 
     const handleSend = async () => {
-        if (!url) return;
+        if (!activePathId) return;
+
+        const { buildRequestForNode, sendBuiltRequest } = useCanvasStore.getState();
+        const request = buildRequestForNode(activePathId);
+        if (!request) return;
+
+        if (request.unresolved.length > 0) {
+            setSendError(`Unresolved variables: ${request.unresolved.join(', ')}`);
+            return;
+        }
+        if (request.missing.length > 0) {
+            setSendError(`Missing required parameters: ${request.missing.join(', ')}`);
+            return;
+        }
 
         setLoading(true);
-        const startTime = Date.now();
+        setSendError(null);
+
+        // This node's own headers replace the method block's headers
+        const variables = getScopedVariables(useCanvasStore.getState());
+        const headersObj = headers.reduce((acc, { key, value }) => {
+            if (key && value) acc[interpolate(key, variables)] = interpolate(value, variables);
+            return acc;
+        }, {} as Record<string, string>);
 
         try {
-            const headersObj = headers.reduce((acc, { key, value }) => {
-                if (key && value) acc[key] = value;
-                return acc;
-            }, {} as Record<string, string>);
-
-            const config: any = {
-                method,
-                url,
-                headers: headersObj,
-            };
-
-            if (['POST', 'PUT', 'PATCH'].includes(method) && bodyFields.length > 0) {
-                const bodyObj = bodyFields.reduce((acc, { key, value }) => {
-                    if (key) acc[key] = value;
-                    return acc;
-                }, {} as Record<string, string>);
-                config.data = bodyObj;
-            }
-
-            const response = await axios(config);
-            const endTime = Date.now();
-
-            setResponse({
-                status: response.status,
-                statusText: response.statusText,
-                data: response.data,
-                headers: response.headers as Record<string, string>,
-                time: endTime - startTime,
-                size: JSON.stringify(response.data).length,
-            });
-        } catch (error: any) {
-            const endTime = Date.now();
-            setResponse({
-                status: error.response?.status || 0,
-                statusText: error.response?.statusText || 'Error',
-                data: error.response?.data || { error: error.message },
-                headers: error.response?.headers || {},
-                time: endTime - startTime,
-                size: 0,
-            });
+            const response = await sendBuiltRequest(activePathId, { ...request, headers: headersObj });
+            setResponse(response);
+        } catch (error) {
+            setSendError(error instanceof Error ? error.message : 'Request failed');
         } finally {
             setLoading(false);
         }
     };
 
     const handleHeaderChange = (index: number, field: 'key' | 'value', newValue: string) => {
-        const newHeaders = [...headers];
-        newHeaders[index][field] = newValue;
+        const newHeaders = headers.map((header, i) =>
+            i === index ? { ...header, [field]: newValue } : header
+        );
         updateNodeHeaders(id, newHeaders);
     };
 
@@ -212,6 +143,10 @@ export function RequestNode({ data, id }: NodeProps<BlockData>) {
                 </div>
             </div>
 
+            {sendError && (
+                <div className="mb-2 text-xs text-red-600">{sendError}</div>
+            )}
+
             <button
                 onClick={(e) => {
                     e.stopPropagation();
@@ -1,8 +1,18 @@
 import { useState } from 'react';
 import { Handle, Position, type NodeProps } from 'reactflow';
 import { type BlockData } from '../../types';
-import { useCanvasStore } from '../../store/useCanvasStore';
+import { useCanvasStore, getScopedVariables } from '../../store/useCanvasStore';
 import { Settings } from 'lucide-react';
+import { findPathParams } from '../../utils/template';
+
+// Whether a path parameter value fits its spec type; placeholders are checked once resolved
+function matchesParamType(value: string, type: string | undefined): boolean {
+  if (!value || value.includes('{{')) return true;
+  if (type === 'integer') return /^-?\d+$/.test(value);
+  if (type === 'number') return value.trim() !== '' && Number.isFinite(Number(value));
+  if (type === 'boolean') return value === 'true' || value === 'false';
+  return true;
+}
 
 export function ResourceBlock({ data, id }: NodeProps<BlockData>) {
   const [isEditing, setIsEditing] = useState(false);
@@ -10,16 +20,19 @@ export function ResourceBlock({ data, id }: NodeProps<BlockData>) {
   const [value, setValue] = useState(data.value);
   const updateNodeValue = useCanvasStore((state) => state.updateNodeValue);
   const setVariable = useCanvasStore((state) => state.setVariable);
-  const variables = useCanvasStore((state) => state.variables);
 
   // ✨ OPTIMIZED: Simple selector instead of O(N×E) path tracing
   const isInActivePath = useCanvasStore((state) =>
     state.activePathNodes.includes(id)
   );
 
-  const isParam = /\{(.+)\}/.test(value);
-  const paramName = isParam ? value.match(/\{(.+)\}/)?.[1] || '' : '';
-  const paramValue = variables[paramName] || '';
+  const paramName = findPathParams(value)[0] || '';
+  const isParam = paramName !== '';
+  const paramValue = useCanvasStore((state) =>
+    getScopedVariables(state)[paramName] || ''
+  );
+  const paramInfo = data.pathParams?.[paramName];
+  const typeMismatch = !matchesParamType(paramValue, paramInfo?.type);
 
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -42,8 +55,12 @@ export function ResourceBlock({ data, id }: NodeProps<BlockData>) {
 
   return (
     <div className={`px-4 py-3 ${isParam ? 'bg-orange-100 border-orange-400' : 'bg-pink-100 border-pink-400'} border-2 ${isInActivePath ? 'ring-2 ring-opacity-50' : ''} rounded-lg shadow-md min-w-[150px] transition-all relative`}>
-      <div className={`text-xs ${isParam ? 'text-orange-600' : 'text-pink-600'} font-semibold mb-1`}>
+      <div className={`text-xs ${isParam ? 'text-orange-600' : 'text-pink-600'} font-semibold mb-1 flex items-center gap-1`} title={paramInfo?.description}>
         {isParam ? 'PARAM' : 'RESOURCE'}
+        {isParam && paramInfo?.type && (
+          <span className={`font-mono font-normal ${typeMismatch ? 'text-red-600' : ''}`}>: {paramInfo.type}</span>
+        )}
+        {isParam && paramInfo?.required && <span className="font-normal">(required)</span>}
       </div>
       {isEditing ? (
         <input
@@ -84,8 +101,11 @@ export function ResourceBlock({ data, id }: NodeProps<BlockData>) {
             onChange={(e) => handleParamValueChange(e.target.value)}
             onClick={(e) => e.stopPropagation()}
             placeholder={`Enter ${paramName}`}
-            className="w-full px-2 py-1 border border-orange-400 rounded text-xs"
+            className={`w-full px-2 py-1 border border-orange-400 rounded text-xs ${typeMismatch ? 'border-red-400! bg-red-50' : ''}`}
           />
+          {typeMismatch && (
+            <div className="text-xs text-red-600 mt-1">Expected {paramInfo?.type === 'integer' ? 'an integer' : `a ${paramInfo?.type}`}</div>
+          )}
         </div>
       )}
 
@@ -3,12 +3,15 @@ import 'reactflow/dist/style.css';
 import { useCanvasStore } from '../../store/useCanvasStore';
 import { BaseUrlBlock } from '../Blocks/BaseUrlBlock';
 import { ResourceBlock } from '../Blocks/ResourceBlock';
+import { QueryBlock } from '../Blocks/QueryBlock';
 import { MethodBlock } from '../Blocks/MethodBlock';
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
 
 const nodeTypes = {
   baseUrl: BaseUrlBlock,
   resource: ResourceBlock,
+  query: QueryBlock,
   method: MethodBlock,
 };
 
@@ -19,6 +22,54 @@ export function Canvas() {
   const onEdgesChange = useCanvasStore((state) => state.onEdgesChange);
   const onConnect = useCanvasStore((state) => state.onConnect);
   const setActivePath = useCanvasStore((state) => state.setActivePath);
+  const importFromCurl = useCanvasStore((state) => state.importFromCurl);
+  const undo = useCanvasStore((state) => state.undo);
+  const redo = useCanvasStore((state) => state.redo);
+  const [pasteError, setPasteError] = useState<string | null>(null);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Pasting a cURL command onto the canvas (not into a field) creates its blocks
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const text = event.clipboardData?.getData('text/plain').trim() || '';
+      if (!/^curl\s/.test(text)) return;
+
+      event.preventDefault();
+      try {
+        importFromCurl(text);
+        setPasteError(null);
+      } catch (error) {
+        setPasteError(error instanceof Error ? error.message : 'Could not parse the command');
+      }
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [importFromCurl]);
 
   // Map nodes to use custom types
   const mappedNodes = useMemo(
@@ -38,7 +89,19 @@ export function Canvas() {
   };
 
   return (
-    <div className="w-full h-full">
+    <div className="w-full h-full relative">
+      {pasteError && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-3 py-2 bg-white border border-red-300 rounded shadow-md">
+          <span className="text-xs text-red-600">Pasted cURL command: {pasteError}</span>
+          <button
+            onClick={() => setPasteError(null)}
+            className="p-0.5 hover:bg-gray-100 rounded transition-colors"
+            title="Dismiss"
+          >
+            <X size={12} className="text-gray-600" />
+          </button>
+        </div>
+      )}
       <ReactFlow
         nodes={mappedNodes}
         edges={edges}
@@ -0,0 +1,334 @@
+import { useRef, useState } from 'react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { CassetteTape, Download, Plus, Trash2, Upload, X } from 'lucide-react';
+import type { Cassette, CassetteMatchRules, VcrMode } from '../../types';
+import { CASSETTE_FILE_EXTENSION } from '../../utils/cassette';
+import { downloadFile } from '../../utils/download';
+
+interface CassetteModalProps {
+    onClose: () => void;
+}
+
+const MODES: Array<{ mode: VcrMode; label: string; title: string }> = [
+    { mode: 'off', label: 'Off', title: 'Send requests as usual' },
+    { mode: 'record', label: 'Record', title: 'Send requests and write their responses to the cassette' },
+    { mode: 'replay', label: 'Replay', title: 'Answer from the cassette without sending anything' },
+];
+
+const modeClass = (mode: VcrMode, active: boolean) => {
+    if (!active) return 'text-gray-600 hover:text-gray-900';
+    if (mode === 'record') return 'bg-red-600 text-white';
+    if (mode === 'replay') return 'bg-purple-600 text-white';
+    return 'bg-white text-gray-800 shadow-sm';
+};
+
+// A comma-separated list, saved on blur
+function ListInput({ label, values, placeholder, onChange }: {
+    label: string;
+    values: string[];
+    placeholder: string;
+    onChange: (values: string[]) => void;
+}) {
+    const [text, setText] = useState(values.join(', '));
+
+    const handleBlur = () => {
+        onChange(text.split(',').map((value) => value.trim()).filter(Boolean));
+    };
+
+    return (
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+            <span className="w-32 shrink-0">{label}</span>
+            <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={handleBlur}
+                placeholder={placeholder}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+            />
+        </label>
+    );
+}
+
+function MatchRulesEditor({ cassette, onError }: { cassette: Cassette; onError: (message: string) => void }) {
+    const updateCassette = useCanvasStore((state) => state.updateCassette);
+    const { rules } = cassette;
+
+    const update = (changes: Partial<CassetteMatchRules>) => {
+        updateCassette(cassette.id, { rules: { ...rules, ...changes } }).catch((error) =>
+            onError(error instanceof Error ? error.message : 'Could not save the cassette')
+        );
+    };
+
+    return (
+        <div className="space-y-1.5">
+            <div className="text-xs font-semibold text-gray-700">Matching</div>
+            <div className="text-xs text-gray-500">Method and URL always have to match.</div>
+            <ListInput
+                label="Ignore query params"
+                values={rules.ignoreQueryParams}
+                placeholder="e.g. _t, cacheBust"
+                onChange={(ignoreQueryParams) => update({ ignoreQueryParams })}
+            />
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input type="checkbox" checked={rules.matchBody} onChange={(e) => update({ matchBody: e.target.checked })} />
+                Match request bodies
+            </label>
+            {rules.matchBody && (
+                <ListInput
+                    label="Ignore body keys"
+                    values={rules.ignoreBodyKeys}
+                    placeholder="e.g. timestamp, requestId"
+                    onChange={(ignoreBodyKeys) => update({ ignoreBodyKeys })}
+                />
+            )}
+            <label className="flex items-center gap-2 text-xs text-gray-700">
+                <input type="checkbox" checked={rules.matchHeaders} onChange={(e) => update({ matchHeaders: e.target.checked })} />
+                Match request headers
+            </label>
+            {rules.matchHeaders && (
+                <ListInput
+                    label="Ignore headers"
+                    values={rules.ignoreHeaders}
+                    placeholder="e.g. Authorization, X-Request-Id"
+                    onChange={(ignoreHeaders) => update({ ignoreHeaders })}
+                />
+            )}
+        </div>
+    );
+}
+
+function EntryList({ cassette, onError }: { cassette: Cassette; onError: (message: string) => void }) {
+    const updateCassette = useCanvasStore((state) => state.updateCassette);
+
+    const removeEntry = (id: string) => {
+        updateCassette(cassette.id, { entries: cassette.entries.filter((entry) => entry.id !== id) }).catch((error) =>
+            onError(error instanceof Error ? error.message : 'Could not save the cassette')
+        );
+    };
+
+    if (cassette.entries.length === 0) {
+        return (
+            <div className="text-xs text-gray-400 italic text-center py-2">
+                Nothing recorded yet: switch to Record and send some requests
+            </div>
+        );
+    }
+
+    return (
+        <div className="max-h-40 overflow-y-auto space-y-0.5">
+            {cassette.entries.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-2 text-xs">
+                    <span className="font-semibold text-gray-700 w-12 shrink-0">{entry.request.method}</span>
+                    <span className="font-mono text-gray-600 flex-1 truncate" title={entry.request.url}>{entry.request.url}</span>
+                    <span className="text-gray-700">{entry.response.status}</span>
+                    <span className="text-gray-400">{new Date(entry.recordedAt).toLocaleString()}</span>
+                    <button
+                        onClick={() => removeEntry(entry.id)}
+                        className="px-1.5 text-red-600 hover:bg-red-50 rounded"
+                        title="Delete this recording"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function CassetteRow({ cassette, selected, onError }: {
+    cassette: Cassette;
+    selected: boolean;
+    onError: (message: string) => void;
+}) {
+    const setVcr = useCanvasStore((state) => state.setVcr);
+    const updateCassette = useCanvasStore((state) => state.updateCassette);
+    const deleteCassette = useCanvasStore((state) => state.deleteCassette);
+    const exportCassette = useCanvasStore((state) => state.exportCassette);
+    // Name is kept locally and saved on blur
+    const [name, setName] = useState(cassette.name);
+
+    const run = (action: Promise<void>) => {
+        action.catch((error) => onError(error instanceof Error ? error.message : 'Cassette action failed'));
+    };
+
+    const handleRename = () => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            setName(cassette.name);
+        } else if (trimmed !== cassette.name) {
+            run(updateCassette(cassette.id, { name: trimmed }));
+        }
+    };
+
+    const handleExport = () => {
+        const fileName = cassette.name.replace(/[^\w.-]+/g, '-').toLowerCase() || 'cassette';
+        downloadFile(exportCassette(cassette.id), `${fileName}${CASSETTE_FILE_EXTENSION}`, 'application/json');
+    };
+
+    const handleDelete = () => {
+        if (window.confirm(`Delete cassette "${cassette.name}" and its ${cassette.entries.length} recordings? This cannot be undone.`)) {
+            run(deleteCassette(cassette.id));
+        }
+    };
+
+    return (
+        <div className={`flex items-center gap-1 p-1.5 rounded ${selected ? 'bg-blue-50' : ''}`}>
+            <input
+                type="radio"
+                checked={selected}
+                onChange={() => setVcr({ cassetteId: cassette.id })}
+                title="Use this cassette in this workspace"
+            />
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onBlur={handleRename}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            <span className="px-1 text-xs text-gray-500 whitespace-nowrap">{cassette.entries.length} recorded</span>
+            <button
+                onClick={handleExport}
+                className="p-1.5 hover:bg-gray-100 rounded text-gray-500 hover:text-gray-700 transition-colors"
+                title="Save as a file"
+            >
+                <Download size={14} />
+            </button>
+            <button
+                onClick={handleDelete}
+                className="p-1.5 hover:bg-red-100 rounded text-gray-400 hover:text-red-600 transition-colors"
+                title="Delete cassette"
+            >
+                <Trash2 size={14} />
+            </button>
+        </div>
+    );
+}
+
+export function CassetteModal({ onClose }: CassetteModalProps) {
+    const vcr = useCanvasStore((state) => state.vcr);
+    const cassettes = useCanvasStore((state) => state.cassettes);
+    const setVcr = useCanvasStore((state) => state.setVcr);
+    const createCassette = useCanvasStore((state) => state.createCassette);
+    const importCassette = useCanvasStore((state) => state.importCassette);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const selected = cassettes.find((cassette) => cassette.id === vcr.cassetteId);
+
+    const handleCreate = () => {
+        createCassette(`Cassette ${cassettes.length + 1}`)
+            .then((id) => setVcr({ cassetteId: id }))
+            .catch((err) => setError(err instanceof Error ? err.message : 'Could not create cassette'));
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        try {
+            await importCassette(await file.text());
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not import cassette');
+        }
+
+        if (fileInputRef.current) {
+            fileInputRef.current.value = '';
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg shadow-2xl border border-gray-300 w-[560px] max-h-[600px] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <div className="flex items-center gap-2">
+                        <CassetteTape size={16} className="text-gray-600" />
+                        <span className="text-sm font-semibold text-gray-700">Record &amp; Replay</span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-gray-100 rounded transition-colors"
+                        title="Close"
+                    >
+                        <X size={14} className="text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="p-3 overflow-auto space-y-3">
+                    <div className="flex items-center gap-2">
+                        <div className="flex gap-0.5 p-0.5 bg-gray-100 rounded">
+                            {MODES.map(({ mode, label, title }) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => setVcr({ mode })}
+                                    disabled={mode !== 'off' && !selected}
+                                    className={`px-3 py-1 text-xs font-medium rounded disabled:opacity-40 ${modeClass(mode, vcr.mode === mode)}`}
+                                    title={title}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <span className="text-xs text-gray-500">
+                            {selected ? `Using “${selected.name}” in this workspace` : 'Pick or create a cassette to record'}
+                        </span>
+                    </div>
+
+                    <div className="space-y-1">
+                        {cassettes.map((cassette) => (
+                            <CassetteRow
+                                key={cassette.id}
+                                cassette={cassette}
+                                selected={cassette.id === vcr.cassetteId}
+                                onError={setError}
+                            />
+                        ))}
+                        <div className="flex items-center gap-3 px-1">
+                            <button
+                                onClick={handleCreate}
+                                className="py-1.5 text-xs text-blue-600 hover:underline flex items-center gap-1"
+                            >
+                                <Plus size={12} />
+                                New cassette
+                            </button>
+                            <button
+                                onClick={() => fileInputRef.current?.click()}
+                                className="py-1.5 text-xs text-blue-600 hover:underline flex items-center gap-1"
+                                title={`Import a ${CASSETTE_FILE_EXTENSION} file`}
+                            >
+                                <Upload size={12} />
+                                Import cassette
+                            </button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept=".json"
+                                onChange={handleFileChange}
+                                className="hidden"
+                            />
+                        </div>
+                    </div>
+
+                    {error && (
+                        <div className="text-xs text-red-600 px-1">{error}</div>
+                    )}
+
+                    {selected && (
+                        <div className="border-t border-gray-200 pt-3 space-y-3">
+                            <MatchRulesEditor key={selected.id} cassette={selected} onError={setError} />
+                            <div>
+                                <div className="text-xs font-semibold text-gray-700 mb-1">Recordings</div>
+                                <EntryList cassette={selected} onError={setError} />
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { Terminal, X } from 'lucide-react';
+
+interface CurlImportModalProps {
+    onClose: () => void;
+}
+
+export function CurlImportModal({ onClose }: CurlImportModalProps) {
+    const importFromCurl = useCanvasStore((state) => state.importFromCurl);
+    const [command, setCommand] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const handleCreate = () => {
+        try {
+            importFromCurl(command);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not parse the command');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg shadow-2xl border border-gray-300 w-[640px] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <div className="flex items-center gap-2">
+                        <Terminal size={16} className="text-gray-600" />
+                        <span className="text-sm font-semibold text-gray-700">Paste cURL</span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-gray-100 rounded transition-colors"
+                        title="Close"
+                    >
+                        <X size={14} className="text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-2">
+                    <div className="text-xs text-gray-500">
+                        Blocks are added for the request; existing base URL and resource blocks are reused when the URL matches.
+                    </div>
+                    <textarea
+                        value={command}
+                        onChange={(e) => {
+                            setCommand(e.target.value);
+                            setError(null);
+                        }}
+                        placeholder={"curl -X POST https://api.example.com/users \\\n  -H 'Content-Type: application/json' \\\n  -d '{\"name\": \"Ada\"}'"}
+                        autoFocus
+                        rows={8}
+                        className="w-full px-2 py-1.5 border border-gray-300 rounded text-xs font-mono"
+                    />
+                    {error && (
+                        <div className="text-xs text-red-600">{error}</div>
+                    )}
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleCreate}
+                            disabled={!command.trim()}
+                            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded text-xs font-medium"
+                        >
+                            Create blocks
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { Globe, Plus, Trash2, X } from 'lucide-react';
+
+interface EnvironmentModalProps {
+    onClose: () => void;
+}
+
+interface VariableRow {
+    key: string;
+    value: string;
+}
+
+function toRows(variables: Record<string, string>): VariableRow[] {
+    return Object.entries(variables).map(([key, value]) => ({ key, value }));
+}
+
+function toRecord(rows: VariableRow[]): Record<string, string> {
+    return rows.reduce((acc, { key, value }) => {
+        if (key) acc[key] = value;
+        return acc;
+    }, {} as Record<string, string>);
+}
+
+function VariableEditor({ scopeId, initialVariables }: {
+    scopeId: string | null;
+    initialVariables: Record<string, string>;
+}) {
+    const setScopeVariables = useCanvasStore((state) => state.setScopeVariables);
+    // Rows are kept locally so half-typed or duplicate keys don't get lost while editing
+    const [rows, setRows] = useState<VariableRow[]>(() => toRows(initialVariables));
+
+    const commit = (newRows: VariableRow[]) => {
+        setRows(newRows);
+        setScopeVariables(scopeId, toRecord(newRows));
+    };
+
+    const handleRowChange = (index: number, field: 'key' | 'value', newValue: string) => {
+        commit(rows.map((row, i) => (i === index ? { ...row, [field]: newValue } : row)));
+    };
+
+    return (
+        <div className="space-y-1">
+            {rows.map((row, index) => (
+                <div key={index} className="flex gap-1">
+                    <input
+                        type="text"
+                        value={row.key}
+                        onChange={(e) => handleRowChange(index, 'key', e.target.value)}
+                        placeholder="name"
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+                    />
+                    <input
+                        type="text"
+                        value={row.value}
+                        onChange={(e) => handleRowChange(index, 'value', e.target.value)}
+                        placeholder="value"
+                        className="flex-1 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+                    />
+                    <button
+                        onClick={() => commit(rows.filter((_, i) => i !== index))}
+                        className="px-1.5 text-red-600 hover:bg-red-50 rounded text-xs"
+                    >
+                        ×
+                    </button>
+                </div>
+            ))}
+            {rows.length === 0 && (
+                <div className="text-xs text-gray-400 italic text-center py-2">
+                    No variables in this scope yet
+                </div>
+            )}
+            <button
+                onClick={() => setRows([...rows, { key: '', value: '' }])}
+                className="text-xs text-blue-600 hover:underline"
+            >
+                + Add variable
+            </button>
+        </div>
+    );
+}
+
+export function EnvironmentModal({ onClose }: EnvironmentModalProps) {
+    const variables = useCanvasStore((state) => state.variables);
+    const environments = useCanvasStore((state) => state.environments);
+    const addEnvironment = useCanvasStore((state) => state.addEnvironment);
+    const renameEnvironment = useCanvasStore((state) => state.renameEnvironment);
+    const removeEnvironment = useCanvasStore((state) => state.removeEnvironment);
+
+    // null selects the global scope
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const selectedEnvironment = environments.find((env) => env.id === selectedId);
+
+    const handleAddEnvironment = () => {
+        const id = addEnvironment(`Environment ${environments.length + 1}`);
+        setSelectedId(id);
+    };
+
+    const handleRemoveEnvironment = (id: string) => {
+        removeEnvironment(id);
+        setSelectedId(null);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg shadow-2xl border border-gray-300 w-[640px] max-h-[500px] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <div className="flex items-center gap-2">
+                        <Globe size={16} className="text-gray-600" />
+                        <span className="text-sm font-semibold text-gray-700">Environments</span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-gray-100 rounded transition-colors"
+                        title="Close"
+                    >
+                        <X size={14} className="text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 min-h-0">
+                    {/* Scope list */}
+                    <div className="w-48 border-r border-gray-200 p-2 overflow-auto space-y-1">
+                        <button
+                            onClick={() => setSelectedId(null)}
+                            className={`w-full text-left px-2 py-1.5 rounded text-xs font-medium ${selectedId === null ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100 text-gray-700'}`}
+                        >
+                            Global
+                        </button>
+                        {environments.map((env) => (
+                            <button
+                                key={env.id}
+                                onClick={() => setSelectedId(env.id)}
+                                className={`w-full text-left px-2 py-1.5 rounded text-xs truncate ${selectedId === env.id ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-100 text-gray-700'}`}
+                            >
+                                {env.name}
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleAddEnvironment}
+                            className="w-full px-2 py-1.5 text-xs text-blue-600 hover:underline flex items-center gap-1"
+                        >
+                            <Plus size={12} />
+                            New environment
+                        </button>
+                    </div>
+
+                    {/* Variables of the selected scope */}
+                    <div className="flex-1 p-4 overflow-auto">
+                        {selectedEnvironment ? (
+                            <div className="flex items-center gap-2 mb-3">
+                                <input
+                                    type="text"
+                                    value={selectedEnvironment.name}
+                                    onChange={(e) => renameEnvironment(selectedEnvironment.id, e.target.value)}
+                                    className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm font-medium"
+                                />
+                                <button
+                                    onClick={() => handleRemoveEnvironment(selectedEnvironment.id)}
+                                    className="p-1.5 hover:bg-red-100 rounded text-gray-400 hover:text-red-600 transition-colors"
+                                    title="Delete environment"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="text-xs text-gray-500 mb-3">
+                                Global variables apply to every environment. Environment values override them.
+                            </div>
+                        )}
+
+                        <VariableEditor
+                            key={selectedId ?? 'global'}
+                            scopeId={selectedId}
+                            initialVariables={selectedEnvironment ? selectedEnvironment.variables : variables}
+                        />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
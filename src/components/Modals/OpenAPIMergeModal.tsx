@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { GitMerge, X } from 'lucide-react';
+import type { MergePlan } from '../../utils/importMerge';
+
+interface OpenAPIMergeModalProps {
+    fileName: string;
+    // The spec file's text
+    content: string;
+    onClose: () => void;
+    // Called with a status message once the spec is merged or imported
+    onDone: (message: string) => void;
+}
+
+function EndpointList({ title, endpoints, className }: { title: string; endpoints: string[]; className: string }) {
+    if (endpoints.length === 0) return null;
+
+    return (
+        <div>
+            <div className={`text-xs font-semibold mb-1 ${className}`}>{title} ({endpoints.length})</div>
+            <div className="max-h-32 overflow-y-auto space-y-0.5">
+                {endpoints.map((endpoint) => (
+                    <div key={endpoint} className="text-xs font-mono text-gray-700">{endpoint}</div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+export function OpenAPIMergeModal({ fileName, content, onClose, onDone }: OpenAPIMergeModalProps) {
+    const previewOpenAPIMerge = useCanvasStore((state) => state.previewOpenAPIMerge);
+    const applyImportMerge = useCanvasStore((state) => state.applyImportMerge);
+    const importFromOpenAPI = useCanvasStore((state) => state.importFromOpenAPI);
+    const [showKept, setShowKept] = useState(false);
+
+    // Computed once against the canvas as it is when the dialog opens
+    const [preview] = useState<{ plan: MergePlan | null; error: string | null }>(() => {
+        try {
+            return { plan: previewOpenAPIMerge(content), error: null };
+        } catch (err) {
+            return { plan: null, error: err instanceof Error ? err.message : 'Could not read the spec' };
+        }
+    });
+    const { plan, error } = preview;
+
+    const handleMerge = () => {
+        if (!plan) return;
+        applyImportMerge(plan);
+        onDone(`✓ Merged ${fileName}: ${plan.added.length} added, ${plan.removed.length} flagged as removed`);
+        onClose();
+    };
+
+    const handleReplace = () => {
+        const result = importFromOpenAPI(content);
+        onDone(`✓ Imported ${result.stats.endpoints} endpoints from ${result.stats.paths} paths`);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg shadow-2xl border border-gray-300 w-[560px] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <div className="flex items-center gap-2">
+                        <GitMerge size={16} className="text-gray-600" />
+                        <span className="text-sm font-semibold text-gray-700">Import {fileName}</span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-gray-100 rounded transition-colors"
+                        title="Close"
+                    >
+                        <X size={14} className="text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="p-4 space-y-3">
+                    {error && (
+                        <div className="text-xs text-red-600">{error}</div>
+                    )}
+
+                    {plan && (
+                        <>
+                            <div className="text-xs text-gray-500">
+                                Merging keeps your blocks, values and positions. New endpoints are added next to the blocks they share a path with; endpoints the spec no longer has are flagged, not deleted.
+                            </div>
+                            {plan.added.length === 0 && plan.removed.length === 0 && (
+                                <div className="text-xs text-gray-600">The canvas already has every endpoint of this spec.</div>
+                            )}
+                            <EndpointList title="Added" endpoints={plan.added} className="text-green-700" />
+                            <EndpointList title="Removed from spec (flagged)" endpoints={plan.removed} className="text-amber-700" />
+                            {plan.kept.length > 0 && (
+                                <div>
+                                    <button
+                                        onClick={() => setShowKept(!showKept)}
+                                        className="text-xs text-gray-600 hover:underline"
+                                    >
+                                        {showKept ? 'Hide' : 'Show'} {plan.kept.length} unchanged
+                                    </button>
+                                    {showKept && (
+                                        <div className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+                                            {plan.kept.map((endpoint) => (
+                                                <div key={endpoint} className="text-xs font-mono text-gray-500">{endpoint}</div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </>
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={handleReplace}
+                            disabled={!plan}
+                            className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 disabled:opacity-40 text-gray-700 rounded text-xs font-medium"
+                            title="Discard the canvas and lay out the spec from scratch"
+                        >
+                            Replace canvas
+                        </button>
+                        <button
+                            onClick={handleMerge}
+                            disabled={!plan}
+                            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded text-xs font-medium"
+                        >
+                            Merge
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react';
 import { useCanvasStore } from '../../store/useCanvasStore';
 import { Clock, X } from 'lucide-react';
 import type { HttpMethod, BodyField } from '../../types';
+import { previewFieldValue } from '../../utils/bodyFields';
 
 interface RequestBodyHistoryModalProps {
     method: HttpMethod;
@@ -159,9 +160,9 @@ export function RequestBodyHistoryModal({
                                     <div key={idx} className="text-xs font-mono">
                                         <span className="text-blue-700 font-semibold">{field.key}:</span>{' '}
                                         <span className="text-gray-700 truncate">
-                                            {field.value.length > 30
-                                                ? `${field.value.substring(0, 30)}...`
-                                                : field.value}
+                                            {previewFieldValue(field).length > 30
+                                                ? `${previewFieldValue(field).substring(0, 30)}...`
+                                                : previewFieldValue(field)}
                                         </span>
                                     </div>
                                 ))}
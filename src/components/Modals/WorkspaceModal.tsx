@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { Copy, FolderOpen, Layers, Plus, Trash2, X } from 'lucide-react';
+import type { WorkspaceSummary } from '../../types';
+
+interface WorkspaceModalProps {
+    onClose: () => void;
+}
+
+function WorkspaceRow({ workspace, isActive, onError }: {
+    workspace: WorkspaceSummary;
+    isActive: boolean;
+    onError: (message: string) => void;
+}) {
+    const switchWorkspace = useCanvasStore((state) => state.switchWorkspace);
+    const renameWorkspace = useCanvasStore((state) => state.renameWorkspace);
+    const duplicateWorkspace = useCanvasStore((state) => state.duplicateWorkspace);
+    const deleteWorkspace = useCanvasStore((state) => state.deleteWorkspace);
+    // Name is kept locally and saved on blur, so typing doesn't rewrite the record per keystroke
+    const [name, setName] = useState(workspace.name);
+
+    const run = (action: Promise<void>) => {
+        action.catch((error) => onError(error instanceof Error ? error.message : 'Workspace action failed'));
+    };
+
+    const handleRename = () => {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            setName(workspace.name);
+        } else if (trimmed !== workspace.name) {
+            run(renameWorkspace(workspace.id, trimmed));
+        }
+    };
+
+    const handleDelete = () => {
+        if (window.confirm(`Delete workspace "${workspace.name}"? This cannot be undone.`)) {
+            run(deleteWorkspace(workspace.id));
+        }
+    };
+
+    return (
+        <div className={`flex items-center gap-1 p-1.5 rounded ${isActive ? 'bg-blue-50' : ''}`}>
+            <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onBlur={handleRename}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+            {isActive ? (
+                <span className="px-2 text-[10px] font-semibold text-blue-600 uppercase">Open</span>
+            ) : (
+                <button
+                    onClick={() => run(switchWorkspace(workspace.id))}
+                    className="p-1.5 hover:bg-gray-100 rounded text-gray-500 hover:text-gray-700 transition-colors"
+                    title="Open workspace"
+                >
+                    <FolderOpen size={14} />
+                </button>
+            )}
+            <button
+                onClick={() => run(duplicateWorkspace(workspace.id))}
+                className="p-1.5 hover:bg-gray-100 rounded text-gray-500 hover:text-gray-700 transition-colors"
+                title="Duplicate workspace"
+            >
+                <Copy size={14} />
+            </button>
+            <button
+                onClick={handleDelete}
+                className="p-1.5 hover:bg-red-100 rounded text-gray-400 hover:text-red-600 transition-colors"
+                title="Delete workspace"
+            >
+                <Trash2 size={14} />
+            </button>
+        </div>
+    );
+}
+
+export function WorkspaceModal({ onClose }: WorkspaceModalProps) {
+    const workspaces = useCanvasStore((state) => state.workspaces);
+    const workspaceId = useCanvasStore((state) => state.workspaceId);
+    const createWorkspace = useCanvasStore((state) => state.createWorkspace);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleCreate = () => {
+        createWorkspace(`Workspace ${workspaces.length + 1}`).catch((err) =>
+            setError(err instanceof Error ? err.message : 'Could not create workspace')
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg shadow-2xl border border-gray-300 w-[480px] max-h-[500px] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between p-4 border-b border-gray-200">
+                    <div className="flex items-center gap-2">
+                        <Layers size={16} className="text-gray-600" />
+                        <span className="text-sm font-semibold text-gray-700">Workspaces</span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 hover:bg-gray-100 rounded transition-colors"
+                        title="Close"
+                    >
+                        <X size={14} className="text-gray-600" />
+                    </button>
+                </div>
+
+                <div className="p-3 overflow-auto space-y-1">
+                    <div className="text-xs text-gray-500 mb-2 px-1">
+                        Each workspace keeps its own blocks, variables, environments and histories.
+                    </div>
+                    {workspaces.map((workspace) => (
+                        <WorkspaceRow
+                            key={workspace.id}
+                            workspace={workspace}
+                            isActive={workspace.id === workspaceId}
+                            onError={setError}
+                        />
+                    ))}
+                    {error && (
+                        <div className="text-xs text-red-600 px-1">{error}</div>
+                    )}
+                    <button
+                        onClick={handleCreate}
+                        className="px-1 py-1.5 text-xs text-blue-600 hover:underline flex items-center gap-1"
+                    >
+                        <Plus size={12} />
+                        New workspace
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
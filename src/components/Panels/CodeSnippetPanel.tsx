@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { Code, Copy, X } from 'lucide-react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { generateSnippet, SNIPPET_LANGUAGES, type SnippetLanguage } from '../../utils/codeSnippets';
+
+export function CodeSnippetPanel({ onClose }: { onClose: () => void }) {
+  const [language, setLanguage] = useState<SnippetLanguage>('curl');
+  const [copied, setCopied] = useState(false);
+
+  // Built exactly like Send builds it, for the active method block
+  const snippet = useCanvasStore((state) => {
+    const request = state.activePathId ? state.buildRequestForNode(state.activePathId) : null;
+    return request ? generateSnippet(language, request) : null;
+  });
+  const unresolved = useCanvasStore(useShallow((state) =>
+    state.activePathId ? state.buildRequestForNode(state.activePathId)?.unresolved ?? [] : []
+  ));
+  const missing = useCanvasStore(useShallow((state) =>
+    state.activePathId ? state.buildRequestForNode(state.activePathId)?.missing ?? [] : []
+  ));
+
+  const handleCopy = () => {
+    if (!snippet) return;
+    navigator.clipboard.writeText(snippet);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed top-20 right-4 bg-white rounded-lg shadow-2xl border border-gray-300 w-[520px] max-h-[calc(100vh-7rem)] flex flex-col z-40">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <Code size={16} className="text-gray-600" />
+          <span className="text-sm font-semibold text-gray-700">Generate Code</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleCopy}
+            disabled={!snippet}
+            className="p-1 hover:bg-gray-100 rounded transition-colors disabled:opacity-40"
+            title="Copy snippet"
+          >
+            <Copy size={14} className={copied ? 'text-green-600' : 'text-gray-600'} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 rounded transition-colors"
+            title="Close"
+          >
+            <X size={14} className="text-gray-600" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-1 p-2 border-b border-gray-200">
+        {SNIPPET_LANGUAGES.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setLanguage(id)}
+            className={`px-2 py-1 rounded text-xs ${language === id ? 'bg-blue-100 text-blue-700 font-medium' : 'hover:bg-gray-100 text-gray-600'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {unresolved.length > 0 && (
+        <div className="px-3 py-2 text-xs text-amber-700 bg-amber-50 border-b border-amber-200">
+          Unresolved variables: {unresolved.join(', ')}
+        </div>
+      )}
+      {missing.length > 0 && (
+        <div className="px-3 py-2 text-xs text-amber-700 bg-amber-50 border-b border-amber-200">
+          Missing required parameters: {missing.join(', ')}
+        </div>
+      )}
+
+      <div className="overflow-auto flex-1 p-3">
+        {snippet ? (
+          <pre className="text-xs font-mono text-gray-800 whitespace-pre">{snippet}</pre>
+        ) : (
+          <div className="text-xs text-gray-400 italic text-center py-4">
+            Click a method block to generate code for its request
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState } from 'react';
+import { ListChecks, Play, Square, X, FileDown } from 'lucide-react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import type { RunScope } from '../../types';
+import { collectTags, selectMethodNodes } from '../../utils/collectionRunner';
+import { toJUnitXml, toJsonReport } from '../../utils/reportExport';
+import { downloadFile } from '../../utils/download';
+
+export function CollectionRunnerPanel({ onClose }: { onClose: () => void }) {
+  const nodes = useCanvasStore((state) => state.nodes);
+  const runReport = useCanvasStore((state) => state.runReport);
+  const runCollection = useCanvasStore((state) => state.runCollection);
+  const stopCollection = useCanvasStore((state) => state.stopCollection);
+  const setActivePath = useCanvasStore((state) => state.setActivePath);
+
+  const [scope, setScope] = useState<RunScope>('all');
+  const [tag, setTag] = useState('');
+  const [concurrency, setConcurrency] = useState(1);
+  const [delayMs, setDelayMs] = useState(0);
+
+  const tags = collectTags(nodes);
+  const targetCount = selectMethodNodes(nodes, { scope, tag }).length;
+  const isRunning = !!runReport?.running;
+
+  const passedCount = runReport?.results.filter((result) => result.passed).length ?? 0;
+  const failedCount = (runReport?.results.length ?? 0) - passedCount;
+  const duration = runReport?.finishedAt ? runReport.finishedAt - runReport.startedAt : null;
+
+  const handleRun = () => {
+    runCollection({ scope, tag, concurrency, delayMs });
+  };
+
+  const handleExport = (format: 'junit' | 'json') => {
+    if (!runReport) return;
+
+    const stamp = new Date(runReport.startedAt).toISOString().replace(/[:.]/g, '-');
+    if (format === 'junit') {
+      downloadFile(toJUnitXml(runReport), `tldfetch-run-${stamp}.xml`, 'application/xml');
+    } else {
+      downloadFile(toJsonReport(runReport), `tldfetch-run-${stamp}.json`, 'application/json');
+    }
+  };
+
+  return (
+    <div className="fixed top-20 left-4 bg-white rounded-lg shadow-2xl border border-gray-300 w-[480px] max-h-[calc(100vh-7rem)] flex flex-col z-40">
+      <div className="flex items-center justify-between p-3 border-b border-gray-200">
+        <div className="flex items-center gap-2">
+          <ListChecks size={16} className="text-gray-600" />
+          <span className="text-sm font-semibold text-gray-700">Collection Runner</span>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded transition-colors"
+          title="Close"
+        >
+          <X size={14} className="text-gray-600" />
+        </button>
+      </div>
+
+      {/* Run options */}
+      <div className="p-3 border-b border-gray-200 grid grid-cols-2 gap-2 text-xs">
+        <label className="flex flex-col gap-1 text-gray-600">
+          Run
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as RunScope)}
+            className="px-2 py-1 border border-gray-300 rounded bg-white"
+          >
+            <option value="all">All method blocks</option>
+            <option value="selected">Selected blocks</option>
+            <option value="tag">By tag</option>
+          </select>
+        </label>
+        {scope === 'tag' && (
+          <label className="flex flex-col gap-1 text-gray-600">
+            Tag
+            <select
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded bg-white"
+            >
+              <option value="">Choose a tag</option>
+              {tags.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1 text-gray-600">
+          Concurrency
+          <input
+            type="number"
+            min={1}
+            max={10}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.max(1, Number(e.target.value) || 1))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-600">
+          Delay (ms)
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={delayMs}
+            onChange={(e) => setDelayMs(Math.max(0, Number(e.target.value) || 0))}
+            className="px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+      </div>
+
+      <div className="p-3 border-b border-gray-200 flex items-center gap-2">
+        <button
+          onClick={isRunning ? stopCollection : handleRun}
+          disabled={!isRunning && targetCount === 0}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white rounded text-xs font-medium flex items-center gap-1.5"
+        >
+          {isRunning ? <Square size={12} /> : <Play size={12} />}
+          {isRunning ? 'Stop' : `Run ${targetCount} request${targetCount !== 1 ? 's' : ''}`}
+        </button>
+        {runReport && (
+          <div className="text-xs text-gray-600 flex-1">
+            <span className="text-green-600 font-semibold">{passedCount} passed</span>
+            {' • '}
+            <span className={failedCount > 0 ? 'text-red-600 font-semibold' : ''}>{failedCount} failed</span>
+            {' • '}
+            {runReport.results.length}/{runReport.total}
+            {duration !== null && <> • {duration}ms</>}
+          </div>
+        )}
+        {runReport && !isRunning && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => handleExport('junit')}
+              className="px-2 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded text-xs flex items-center gap-1"
+              title="Download JUnit XML report"
+            >
+              <FileDown size={12} />
+              JUnit
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              className="px-2 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded text-xs flex items-center gap-1"
+              title="Download JSON report"
+            >
+              <FileDown size={12} />
+              JSON
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="overflow-auto flex-1 p-2 space-y-1">
+        {!runReport && (
+          <div className="text-xs text-gray-400 italic text-center py-4">
+            No run yet
+          </div>
+        )}
+        {runReport?.results.map((result) => {
+          const failedAssertions = result.assertionResults?.filter((assertion) => !assertion.passed) || [];
+
+          return (
+            <button
+              key={result.nodeId}
+              onClick={() => setActivePath(result.nodeId)}
+              className={`w-full text-left px-2 py-1.5 rounded border text-xs ${result.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className={`font-bold ${result.passed ? 'text-green-600' : 'text-red-600'}`}>
+                  {result.passed ? '✓' : '✗'}
+                </span>
+                <span className="font-bold text-gray-700">{result.method}</span>
+                <span className="font-mono truncate flex-1 text-gray-700">{result.url}</span>
+                <span className="text-gray-600">{result.status || '—'}</span>
+                <span className="text-gray-500">{result.time}ms</span>
+              </div>
+              {result.error && (
+                <div className="text-red-600 mt-0.5">{result.error}</div>
+              )}
+              {failedAssertions.map((assertion) => (
+                <div key={assertion.assertionId} className="text-red-600 mt-0.5 font-mono">
+                  ✗ {assertion.description} — {assertion.message}
+                </div>
+              ))}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
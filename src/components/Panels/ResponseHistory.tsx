@@ -2,10 +2,11 @@ import { useState, type ReactElement } from 'react';
 import { useCanvasStore } from '../../store/useCanvasStore';
 import { ChevronDown, ChevronRight, X, GripVertical } from 'lucide-react';
 import type { HistoryItem, HttpMethod } from '../../types';
+import { createBodyDragData } from '../../utils/bodyFields';
 
 interface DraggableFieldProps {
     keyName: string;
-    value: any;
+    value: unknown;
     path?: string;
 }
 
@@ -14,7 +15,7 @@ function DraggableJsonFields({ data, parentPath = '' }: { data: any; parentPath?
         const fullPath = currentPath ? `${currentPath}.${key}` : key;
 
         if (value === null || value === undefined) {
-            return <DraggableField key={fullPath} keyName={key} value={String(value)} path={fullPath} />;
+            return <DraggableField key={fullPath} keyName={key} value={value} path={fullPath} />;
         }
 
         if (typeof value === 'object' && !Array.isArray(value)) {
@@ -48,7 +49,7 @@ function DraggableJsonFields({ data, parentPath = '' }: { data: any; parentPath?
                             <DraggableField
                                 key={itemPath}
                                 keyName={`${key}[${index}]`}
-                                value={typeof item === 'object' ? JSON.stringify(item) : String(item)}
+                                value={item}
                                 path={itemPath}
                             />
                         );
@@ -57,7 +58,7 @@ function DraggableJsonFields({ data, parentPath = '' }: { data: any; parentPath?
             );
         }
 
-        return <DraggableField key={fullPath} keyName={key} value={String(value)} path={fullPath} />;
+        return <DraggableField key={fullPath} keyName={key} value={value} path={fullPath} />;
     };
 
     return (
@@ -71,15 +72,8 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
     const [isDraggingKey, setIsDraggingKey] = useState(false);
     const [isDraggingValue, setIsDraggingValue] = useState(false);
 
-    const createDragData = (valueOnly: boolean) => {
-        const leafKey = keyName.includes('.') ? keyName.split('.').pop()! : keyName;
-
-        return {
-            key: leafKey,
-            value: value,
-            valueOnly: valueOnly,
-        };
-    };
+    const displayValue = value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const createDragData = (valueOnly: boolean) => createBodyDragData(keyName, value, path || keyName, valueOnly);
 
     const handleKeyDragStart = (e: React.DragEvent) => {
         e.stopPropagation();
@@ -88,7 +82,7 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
         const dragData = createDragData(false); // Key + Value
         e.dataTransfer.effectAllowed = 'copy';
         e.dataTransfer.setData('application/json', JSON.stringify(dragData));
-        e.dataTransfer.setData('text/plain', `${dragData.key}: ${value}`);
+        e.dataTransfer.setData('text/plain', `${dragData.key}: ${displayValue}`);
     };
 
     const handleValueDragStart = (e: React.DragEvent) => {
@@ -98,7 +92,7 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
         const dragData = createDragData(true); // Value only
         e.dataTransfer.effectAllowed = 'copy';
         e.dataTransfer.setData('application/json', JSON.stringify(dragData));
-        e.dataTransfer.setData('text/plain', value);
+        e.dataTransfer.setData('text/plain', displayValue);
     };
 
     const handleDragEnd = () => {
@@ -128,7 +122,7 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
                 onDragStart={handleValueDragStart}
                 onDragEnd={handleDragEnd}
                 title="Drag to add value only"
-            >{value}</span>
+            >{displayValue}</span>
         </div>
     );
 }
@@ -181,6 +175,24 @@ function HistoryCard({ item, expanded, onToggle, onDelete }: {
                         {item.url}
                     </div>
 
+                    {item.replayed && (
+                        <div
+                            className="px-1 bg-purple-100 text-purple-800 rounded text-[10px] font-semibold"
+                            title={`Replayed from cassette "${item.replayed.cassette}", not sent`}
+                        >
+                            REPLAY
+                        </div>
+                    )}
+
+                    {item.mocked && (
+                        <div
+                            className="px-1 bg-amber-100 text-amber-800 rounded text-[10px] font-semibold"
+                            title="Answered by mock mode, not the server"
+                        >
+                            MOCK
+                        </div>
+                    )}
+
                     <div className={`text-xs font-semibold ${statusColor}`}>
                         {item.status}
                     </div>
@@ -211,6 +223,11 @@ function HistoryCard({ item, expanded, onToggle, onDelete }: {
                         <span>{item.time}ms</span>
                         {' • '}
                         <span>{item.size} bytes</span>
+                        {item.replayed && (
+                            <span className="text-purple-700">
+                                {' • '}replayed from “{item.replayed.cassette}”, recorded {new Date(item.replayed.recordedAt).toLocaleString()}
+                            </span>
+                        )}
                     </div>
 
                     <div className="bg-white rounded border border-gray-200 p-2 max-h-60 overflow-auto">
@@ -1,12 +1,23 @@
 import { useState, type ReactElement } from 'react';
 import { useCanvasStore } from '../../store/useCanvasStore';
+import { createBodyDragData } from '../../utils/bodyFields';
 import { GripVertical } from 'lucide-react';
+import type { ContractIssueKind } from '../../types';
 
-type Tab = 'body' | 'headers' | 'raw';
+type Tab = 'body' | 'headers' | 'raw' | 'tests' | 'contract';
+
+const CONTRACT_ISSUE_LABELS: Record<ContractIssueKind, string> = {
+  status: 'Status',
+  contentType: 'Content-Type',
+  required: 'Missing',
+  type: 'Type',
+  enum: 'Value',
+  extra: 'Extra',
+};
 
 interface DraggableFieldProps {
   keyName: string;
-  value: any;
+  value: unknown;
   path?: string;
 }
 
@@ -15,7 +26,7 @@ function DraggableJsonFields({ data, parentPath = '' }: { data: any; parentPath?
     const fullPath = currentPath ? `${currentPath}.${key}` : key;
 
     if (value === null || value === undefined) {
-      return <DraggableField key={fullPath} keyName={key} value={String(value)} path={fullPath} />;
+      return <DraggableField key={fullPath} keyName={key} value={value} path={fullPath} />;
     }
 
     if (typeof value === 'object' && !Array.isArray(value)) {
@@ -49,7 +60,7 @@ function DraggableJsonFields({ data, parentPath = '' }: { data: any; parentPath?
               <DraggableField
                 key={itemPath}
                 keyName={`${key}[${index}]`}
-                value={typeof item === 'object' ? JSON.stringify(item) : String(item)}
+                value={item}
                 path={itemPath}
               />
             );
@@ -58,7 +69,7 @@ function DraggableJsonFields({ data, parentPath = '' }: { data: any; parentPath?
       );
     }
 
-    return <DraggableField key={fullPath} keyName={key} value={String(value)} path={fullPath} />;
+    return <DraggableField key={fullPath} keyName={key} value={value} path={fullPath} />;
   };
 
   return (
@@ -72,15 +83,8 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
   const [isDraggingKey, setIsDraggingKey] = useState(false);
   const [isDraggingValue, setIsDraggingValue] = useState(false);
 
-  const createDragData = (valueOnly: boolean) => {
-    const leafKey = keyName.includes('.') ? keyName.split('.').pop()! : keyName;
-
-    return {
-      key: leafKey,
-      value: value,
-      valueOnly: valueOnly,
-    };
-  };
+  const displayValue = value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const createDragData = (valueOnly: boolean) => createBodyDragData(keyName, value, path || keyName, valueOnly);
 
   const handleKeyDragStart = (e: React.DragEvent) => {
     e.stopPropagation();
@@ -89,7 +93,7 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
     const dragData = createDragData(false); // Key + Value
     e.dataTransfer.effectAllowed = 'copy';
     e.dataTransfer.setData('application/json', JSON.stringify(dragData));
-    e.dataTransfer.setData('text/plain', `${dragData.key}: ${value}`);
+    e.dataTransfer.setData('text/plain', `${dragData.key}: ${displayValue}`);
   };
 
   const handleValueDragStart = (e: React.DragEvent) => {
@@ -99,7 +103,7 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
     const dragData = createDragData(true); // Value only
     e.dataTransfer.effectAllowed = 'copy';
     e.dataTransfer.setData('application/json', JSON.stringify(dragData));
-    e.dataTransfer.setData('text/plain', value);
+    e.dataTransfer.setData('text/plain', displayValue);
   };
 
   const handleDragEnd = () => {
@@ -129,7 +133,7 @@ function DraggableField({ keyName, value, path }: DraggableFieldProps) {
         onDragStart={handleValueDragStart}
         onDragEnd={handleDragEnd}
         title="Drag to add value only"
-      >{value}</span>
+      >{displayValue}</span>
     </div>
   );
 }
@@ -149,6 +153,15 @@ export function ResponseModal() {
     );
   }
 
+  const passedCount = response.assertionResults?.filter((result) => result.passed).length ?? 0;
+  const allPassed = passedCount === response.assertionResults?.length;
+
+  const contract = response.contractResult;
+
+  // Fall back to the body when the new response has no test results or contract check to show
+  const currentTab: Tab =
+    (activeTab === 'tests' && !response.assertionResults) || (activeTab === 'contract' && !contract) ? 'body' : activeTab;
+
   const statusColor = response.status >= 200 && response.status < 300
     ? 'text-green-600'
     : response.status >= 400
@@ -165,14 +178,35 @@ export function ResponseModal() {
           </span>
           <span className="text-gray-500">{response.time}ms</span>
           <span className="text-gray-500">{response.size} bytes</span>
+          {response.replayed && (
+            <span
+              className="ml-auto px-1.5 py-0.5 bg-purple-100 text-purple-800 rounded text-[10px] font-semibold"
+              title="Played back from a cassette, not sent to the server"
+            >
+              REPLAY
+            </span>
+          )}
+          {response.mocked && (
+            <span
+              className="ml-auto px-1.5 py-0.5 bg-amber-100 text-amber-800 rounded text-[10px] font-semibold"
+              title="Answered by mock mode from the imported spec, not the server"
+            >
+              MOCK
+            </span>
+          )}
         </div>
+        {response.replayed && (
+          <div className="mt-2 px-2 py-1 bg-purple-50 border border-purple-200 rounded text-xs text-purple-800">
+            Replayed from cassette “{response.replayed.cassette}”, recorded {new Date(response.replayed.recordedAt).toLocaleString()}. No request was sent.
+          </div>
+        )}
       </div>
 
       {/* Tab Navigation */}
       <div className="flex border-b border-gray-200 bg-gray-50">
         <button
           onClick={() => setActiveTab('body')}
-          className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${activeTab === 'body'
+          className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${currentTab === 'body'
               ? 'bg-white text-blue-600 border-b-2 border-blue-600'
               : 'text-gray-600 hover:text-gray-900'
             }`}
@@ -181,7 +215,7 @@ export function ResponseModal() {
         </button>
         <button
           onClick={() => setActiveTab('headers')}
-          className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${activeTab === 'headers'
+          className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${currentTab === 'headers'
               ? 'bg-white text-blue-600 border-b-2 border-blue-600'
               : 'text-gray-600 hover:text-gray-900'
             }`}
@@ -190,18 +224,47 @@ export function ResponseModal() {
         </button>
         <button
           onClick={() => setActiveTab('raw')}
-          className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${activeTab === 'raw'
+          className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${currentTab === 'raw'
               ? 'bg-white text-blue-600 border-b-2 border-blue-600'
               : 'text-gray-600 hover:text-gray-900'
             }`}
         >
           Raw
         </button>
+        {response.assertionResults && (
+          <button
+            onClick={() => setActiveTab('tests')}
+            className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${currentTab === 'tests'
+                ? 'bg-white text-blue-600 border-b-2 border-blue-600'
+                : 'text-gray-600 hover:text-gray-900'
+              }`}
+          >
+            Tests{' '}
+            <span className={allPassed ? 'text-green-600' : 'text-red-600'}>
+              {passedCount}/{response.assertionResults.length}
+            </span>
+          </button>
+        )}
+        {contract && (
+          <button
+            onClick={() => setActiveTab('contract')}
+            className={`flex-1 px-4 py-2 text-xs font-medium transition-colors ${currentTab === 'contract'
+                ? 'bg-white text-blue-600 border-b-2 border-blue-600'
+                : 'text-gray-600 hover:text-gray-900'
+              }`}
+            title={`Checked against ${contract.operation} in the imported spec`}
+          >
+            Contract{' '}
+            <span className={contract.issues.length === 0 ? 'text-green-600' : 'text-red-600'}>
+              {contract.issues.length === 0 ? '✓' : contract.issues.length}
+            </span>
+          </button>
+        )}
       </div>
 
       {/* Tab Content */}
       <div className="p-4 overflow-auto flex-1">
-        {activeTab === 'body' && (
+        {currentTab === 'body' && (
           <div className="space-y-2">
             {typeof response.data === 'object' && response.data !== null ? (
               <DraggableJsonFields data={response.data} />
@@ -213,7 +276,7 @@ export function ResponseModal() {
           </div>
         )}
 
-        {activeTab === 'headers' && (
+        {currentTab === 'headers' && (
           <div className="space-y-2">
             {Object.entries(response.headers).map(([key, value]) => (
               <div key={key} className="flex items-start gap-2 text-xs">
@@ -224,7 +287,45 @@ export function ResponseModal() {
           </div>
         )}
 
-        {activeTab === 'raw' && (
+        {currentTab === 'tests' && response.assertionResults && (
+          <div className="space-y-1">
+            {response.assertionResults.map((result) => (
+              <div
+                key={result.assertionId}
+                className={`flex items-start gap-2 px-2 py-1 rounded text-xs ${result.passed ? 'bg-green-50' : 'bg-red-50'}`}
+              >
+                <span className={`font-bold ${result.passed ? 'text-green-600' : 'text-red-600'}`}>
+                  {result.passed ? '✓' : '✗'}
+                </span>
+                <span className="font-mono text-gray-800 flex-1 break-all">{result.description}</span>
+                <span className="text-gray-500 break-all">{result.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {currentTab === 'contract' && contract && (
+          <div className="space-y-1">
+            <div className="text-xs text-gray-500 mb-2">
+              <span className="font-mono">{contract.operation}</span>
+              {contract.matchedStatus && <> · {contract.matchedStatus} response</>}
+            </div>
+            {contract.issues.length === 0 && (
+              <div className="px-2 py-1 rounded text-xs bg-green-50 text-green-700">
+                ✓ The response matches the spec
+              </div>
+            )}
+            {contract.issues.map((issue, index) => (
+              <div key={index} className="flex items-start gap-2 px-2 py-1 rounded text-xs bg-red-50">
+                <span className="font-semibold text-red-600 min-w-[72px]">{CONTRACT_ISSUE_LABELS[issue.kind]}</span>
+                <span className="font-mono text-gray-800 break-all">{issue.path}</span>
+                <span className="text-gray-500 flex-1 break-all">{issue.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {currentTab === 'raw' && (
           <pre className="text-xs font-mono whitespace-pre-wrap text-gray-800">
             {JSON.stringify(response.data, null, 2)}
           </pre>
@@ -1,15 +1,47 @@
-import { Plus, Trash2, Upload } from 'lucide-react';
+import { CassetteTape, Code, Globe, Layers, ListChecks, Plus, Redo2, Terminal, Trash2, Undo2, Upload } from 'lucide-react';
 import { useRef, useState } from 'react';
 import { useCanvasStore } from '../../store/useCanvasStore';
 import { type HttpMethod } from '../../types';
+import { detectImportFormat } from '../../utils/importFormat';
+import { EnvironmentModal } from '../Modals/EnvironmentModal';
+import { CurlImportModal } from '../Modals/CurlImportModal';
+import { CassetteModal } from '../Modals/CassetteModal';
+import { OpenAPIMergeModal } from '../Modals/OpenAPIMergeModal';
+import { WorkspaceModal } from '../Modals/WorkspaceModal';
+import { CollectionRunnerPanel } from '../Panels/CollectionRunnerPanel';
+import { CodeSnippetPanel } from '../Panels/CodeSnippetPanel';
+import { ExportMenu } from './ExportMenu';
 
 export function BlockToolbar() {
   const addNode = useCanvasStore((state) => state.addNode);
   const resetToDefault = useCanvasStore((state) => state.resetToDefault);
   const importFromOpenAPI = useCanvasStore((state) => state.importFromOpenAPI);
+  const importFromPostman = useCanvasStore((state) => state.importFromPostman);
+  const importFromHar = useCanvasStore((state) => state.importFromHar);
+  const importWorkspace = useCanvasStore((state) => state.importWorkspace);
+  const environments = useCanvasStore((state) => state.environments);
+  const activeEnvironmentId = useCanvasStore((state) => state.activeEnvironmentId);
+  const setActiveEnvironment = useCanvasStore((state) => state.setActiveEnvironment);
+  const workspaces = useCanvasStore((state) => state.workspaces);
+  const workspaceId = useCanvasStore((state) => state.workspaceId);
+  const switchWorkspace = useCanvasStore((state) => state.switchWorkspace);
+  const canUndo = useCanvasStore((state) => state.canUndo);
+  const canRedo = useCanvasStore((state) => state.canRedo);
+  const undo = useCanvasStore((state) => state.undo);
+  const redo = useCanvasStore((state) => state.redo);
+  const hasNodes = useCanvasStore((state) => state.nodes.length > 0);
+  const vcrMode = useCanvasStore((state) => state.vcr.mode);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [showEnvironmentModal, setShowEnvironmentModal] = useState(false);
+  const [showRunner, setShowRunner] = useState(false);
+  const [showCurlModal, setShowCurlModal] = useState(false);
+  const [showCodePanel, setShowCodePanel] = useState(false);
+  const [showWorkspaceModal, setShowWorkspaceModal] = useState(false);
+  const [showCassetteModal, setShowCassetteModal] = useState(false);
+  // A spec picked while the canvas has blocks, waiting for merge or replace
+  const [pendingSpec, setPendingSpec] = useState<{ fileName: string; content: string } | null>(null);
 
   const methods: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
 
@@ -17,18 +49,36 @@ export function BlockToolbar() {
     fileInputRef.current?.click();
   };
 
+  const showStatus = (message: string) => {
+    setImportStatus(message);
+    setTimeout(() => setImportStatus(null), 4000);
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
     try {
       const text = await file.text();
-      const result = importFromOpenAPI(text);
-      setImportStatus(`✓ Imported ${result.stats.endpoints} endpoints from ${result.stats.paths} paths`);
-      setTimeout(() => setImportStatus(null), 4000);
+      const format = detectImportFormat(text);
+
+      if (format === 'workspace') {
+        importWorkspace(text);
+        showStatus(`✓ Loaded workspace ${file.name}`);
+      } else if (format === 'openapi' && hasNodes) {
+        // Re-imports are previewed and can be merged into the existing blocks
+        setPendingSpec({ fileName: file.name, content: text });
+      } else {
+        const importers = {
+          openapi: importFromOpenAPI,
+          postman: importFromPostman,
+          har: importFromHar,
+        };
+        const result = importers[format](text);
+        showStatus(`✓ Imported ${result.stats.endpoints} endpoints from ${result.stats.paths} paths`);
+      }
     } catch (error) {
-      setImportStatus(`✗ ${error instanceof Error ? error.message : 'Import failed'}`);
-      setTimeout(() => setImportStatus(null), 4000);
+      showStatus(`✗ ${error instanceof Error ? error.message : 'Import failed'}`);
     }
 
     // Reset file input
@@ -40,6 +90,51 @@ export function BlockToolbar() {
   return (
     <div className="absolute top-4 left-4 bg-white rounded-lg shadow-lg p-2 z-10 border border-gray-200">
       <div className="flex items-center gap-2">
+        <div className="border-r border-gray-200 pr-2 flex items-center gap-1.5">
+          {/* Workspace Switcher */}
+          <select
+            value={workspaceId}
+            onChange={(e) => {
+              switchWorkspace(e.target.value).catch((error) => {
+                setImportStatus(`✗ ${error instanceof Error ? error.message : 'Could not open workspace'}`);
+                setTimeout(() => setImportStatus(null), 4000);
+              });
+            }}
+            className="px-2 py-1 bg-gray-50 border border-gray-200 rounded text-xs text-gray-700 max-w-[140px]"
+            title="Active workspace"
+          >
+            {workspaces.map((workspace) => (
+              <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowWorkspaceModal(true)}
+            className="p-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+            title="Create, rename, duplicate and delete workspaces"
+          >
+            <Layers size={14} />
+          </button>
+        </div>
+
+        <div className="border-r border-gray-200 pr-2 flex items-center gap-1">
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            className="p-1.5 hover:bg-gray-100 text-gray-700 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 size={14} />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            className="p-1.5 hover:bg-gray-100 text-gray-700 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 size={14} />
+          </button>
+        </div>
+
         <button
           onClick={() => addNode('baseUrl', 'http://localhost:3000')}
           className="px-3 py-1.5 bg-blue-100 hover:bg-blue-200 text-blue-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
@@ -56,6 +151,14 @@ export function BlockToolbar() {
           Resource
         </button>
 
+        <button
+          onClick={() => addNode('query', '')}
+          className="px-3 py-1.5 bg-teal-100 hover:bg-teal-200 text-teal-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
+        >
+          <Plus size={14} />
+          Query
+        </button>
+
         <div className="border-l border-gray-200 pl-2 flex items-center gap-1.5">
           {methods.map((method) => (
             <button
@@ -68,24 +171,91 @@ export function BlockToolbar() {
           ))}
         </div>
 
+        <div className="border-l border-gray-200 pl-2 flex items-center gap-1.5">
+          {/* Environment Switcher */}
+          <select
+            value={activeEnvironmentId ?? ''}
+            onChange={(e) => setActiveEnvironment(e.target.value || null)}
+            className="px-2 py-1 bg-gray-50 border border-gray-200 rounded text-xs text-gray-700"
+            title="Active environment"
+          >
+            <option value="">No environment</option>
+            {environments.map((env) => (
+              <option key={env.id} value={env.id}>{env.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowEnvironmentModal(true)}
+            className="p-1.5 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+            title="Manage environments and variables"
+          >
+            <Globe size={14} />
+          </button>
+        </div>
+
         <div className="border-l border-gray-200 pl-2 flex items-center gap-2">
-          {/* Import OpenAPI Button */}
+          {/* Collection Runner */}
+          <button
+            onClick={() => setShowRunner(!showRunner)}
+            className="px-3 py-1.5 bg-indigo-100 hover:bg-indigo-200 text-indigo-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
+            title="Run all, selected or tagged method blocks"
+          >
+            <ListChecks size={14} />
+            Run
+          </button>
+
+          {/* Code snippets for the active request */}
+          <button
+            onClick={() => setShowCodePanel(!showCodePanel)}
+            className="px-3 py-1.5 bg-indigo-100 hover:bg-indigo-200 text-indigo-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
+            title="Generate code for the active request"
+          >
+            <Code size={14} />
+            Code
+          </button>
+
+          {/* Record/replay, colored while recording or replaying */}
+          <button
+            onClick={() => setShowCassetteModal(true)}
+            className={`px-3 py-1.5 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap ${vcrMode === 'record'
+                ? 'bg-red-600 hover:bg-red-700 text-white'
+                : vcrMode === 'replay'
+                  ? 'bg-purple-600 hover:bg-purple-700 text-white'
+                  : 'bg-indigo-100 hover:bg-indigo-200 text-indigo-700'
+              }`}
+            title="Record responses into cassettes and replay them without the network"
+          >
+            <CassetteTape size={14} />
+            {vcrMode === 'record' ? '● Recording' : vcrMode === 'replay' ? 'Replaying' : 'VCR'}
+          </button>
+
+          {/* Import Button (workspace, OpenAPI, Postman or HAR, detected from the file) */}
           <button
             onClick={handleImportClick}
             className="px-3 py-1.5 bg-green-100 hover:bg-green-200 text-green-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
-            title="Import from OpenAPI/Swagger JSON file"
+            title="Open a .tldfetch.json workspace, or import an OpenAPI/Swagger spec, a Postman v2.1 collection or a HAR capture"
           >
             <Upload size={14} />
-            Import OpenAPI
+            Import
+          </button>
+          <button
+            onClick={() => setShowCurlModal(true)}
+            className="px-3 py-1.5 bg-green-100 hover:bg-green-200 text-green-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
+            title="Create blocks from a cURL command"
+          >
+            <Terminal size={14} />
+            cURL
           </button>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json,.yaml,.yml"
+            accept=".json,.yaml,.yml,.har"
             onChange={handleFileChange}
             className="hidden"
           />
 
+          <ExportMenu />
+
           <button
             onClick={resetToDefault}
             className="px-3 py-1.5 bg-red-100 hover:bg-red-200 text-red-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
@@ -106,6 +276,39 @@ export function BlockToolbar() {
           {importStatus}
         </div>
       )}
+
+      {showRunner && (
+        <CollectionRunnerPanel onClose={() => setShowRunner(false)} />
+      )}
+
+      {showCodePanel && (
+        <CodeSnippetPanel onClose={() => setShowCodePanel(false)} />
+      )}
+
+      {showEnvironmentModal && (
+        <EnvironmentModal onClose={() => setShowEnvironmentModal(false)} />
+      )}
+
+      {showWorkspaceModal && (
+        <WorkspaceModal onClose={() => setShowWorkspaceModal(false)} />
+      )}
+
+      {showCassetteModal && (
+        <CassetteModal onClose={() => setShowCassetteModal(false)} />
+      )}
+
+      {showCurlModal && (
+        <CurlImportModal onClose={() => setShowCurlModal(false)} />
+      )}
+
+      {pendingSpec && (
+        <OpenAPIMergeModal
+          fileName={pendingSpec.fileName}
+          content={pendingSpec.content}
+          onClose={() => setPendingSpec(null)}
+          onDone={showStatus}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,92 @@
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import { Download } from 'lucide-react';
+import { useCanvasStore } from '../../store/useCanvasStore';
+import { downloadFile } from '../../utils/download';
+import type { OpenAPIVersion, SpecFormat } from '../../utils/openApiExporter';
+import { toHar } from '../../utils/har';
+import { WORKSPACE_FILE_EXTENSION } from '../../store/workspaceFile';
+
+const specExports: Array<{ version: OpenAPIVersion; format: SpecFormat; label: string }> = [
+  { version: '3.0', format: 'yaml', label: 'OpenAPI 3.0 (YAML)' },
+  { version: '3.0', format: 'json', label: 'OpenAPI 3.0 (JSON)' },
+  { version: '3.1', format: 'yaml', label: 'OpenAPI 3.1 (YAML)' },
+  { version: '3.1', format: 'json', label: 'OpenAPI 3.1 (JSON)' },
+];
+
+const itemClassName = 'px-3 py-1.5 text-xs text-gray-700 rounded cursor-pointer outline-none data-[highlighted]:bg-gray-100';
+
+export function ExportMenu() {
+  const exportToOpenAPI = useCanvasStore((state) => state.exportToOpenAPI);
+  const exportWorkspace = useCanvasStore((state) => state.exportWorkspace);
+  const hasHistory = useCanvasStore((state) => state.history.length > 0);
+
+  const handleSpecExport = (version: OpenAPIVersion, format: SpecFormat) => {
+    const content = exportToOpenAPI(version, format);
+    const mimeType = format === 'yaml' ? 'application/yaml' : 'application/json';
+    downloadFile(content, `openapi.${format}`, mimeType);
+  };
+
+  const handleWorkspaceExport = () => {
+    downloadFile(exportWorkspace(), `workspace${WORKSPACE_FILE_EXTENSION}`, 'application/json');
+  };
+
+  const handleHarExport = () => {
+    const { history } = useCanvasStore.getState();
+    downloadFile(toHar(history), 'tldfetch-history.har', 'application/json');
+  };
+
+  return (
+    <DropdownMenu.Root>
+      <DropdownMenu.Trigger asChild>
+        <button
+          className="px-3 py-1.5 bg-green-100 hover:bg-green-200 text-green-700 rounded text-xs font-medium flex items-center gap-1.5 whitespace-nowrap"
+          title="Export the canvas"
+        >
+          <Download size={14} />
+          Export
+        </button>
+      </DropdownMenu.Trigger>
+
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          align="start"
+          sideOffset={6}
+          className="bg-white rounded-lg shadow-lg border border-gray-200 p-1 min-w-[180px] z-50"
+        >
+          <DropdownMenu.Label className="px-3 py-1 text-[10px] font-semibold text-gray-400 uppercase">
+            Workspace
+          </DropdownMenu.Label>
+          <DropdownMenu.Item onSelect={handleWorkspaceExport} className={itemClassName}>
+            Save workspace ({WORKSPACE_FILE_EXTENSION})
+          </DropdownMenu.Item>
+
+          <DropdownMenu.Separator className="h-px bg-gray-200 my-1" />
+          <DropdownMenu.Label className="px-3 py-1 text-[10px] font-semibold text-gray-400 uppercase">
+            API specification
+          </DropdownMenu.Label>
+          {specExports.map(({ version, format, label }) => (
+            <DropdownMenu.Item
+              key={label}
+              onSelect={() => handleSpecExport(version, format)}
+              className={itemClassName}
+            >
+              {label}
+            </DropdownMenu.Item>
+          ))}
+
+          <DropdownMenu.Separator className="h-px bg-gray-200 my-1" />
+          <DropdownMenu.Label className="px-3 py-1 text-[10px] font-semibold text-gray-400 uppercase">
+            Request history
+          </DropdownMenu.Label>
+          <DropdownMenu.Item
+            disabled={!hasHistory}
+            onSelect={handleHarExport}
+            className={`${itemClassName} data-[disabled]:text-gray-300 data-[disabled]:cursor-default`}
+          >
+            HAR 1.2
+          </DropdownMenu.Item>
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
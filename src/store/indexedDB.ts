@@ -1,8 +1,55 @@
-import type { CanvasState } from '../types';
+import { nanoid } from 'nanoid';
+import type { Cassette, WorkspaceSummary } from '../types';
+import type { PersistedState } from './migrations';
 
 const DB_NAME = 'tldfetch-db';
-const DB_VERSION = 1;
-const STORE_NAME = 'canvas-state';
+const DB_VERSION = 4;
+
+// Version 1 kept the whole canvas under one key of this store
+const LEGACY_STORE_NAME = 'canvas-state';
+const LEGACY_STATE_KEY = 'canvasState';
+
+// One record per workspace, keyed by id
+const WORKSPACES_STORE_NAME = 'workspaces';
+// Small app-level values, e.g. the last opened workspace
+const META_STORE_NAME = 'meta';
+const LAST_WORKSPACE_KEY = 'lastWorkspaceId';
+// Files picked for multipart bodies, keyed by StoredFileInfo id
+const FILES_STORE_NAME = 'files';
+// Record/replay cassettes, shared by every workspace, keyed by id
+const CASSETTES_STORE_NAME = 'cassettes';
+
+export interface WorkspaceRecord extends WorkspaceSummary {
+    state: PersistedState;
+}
+
+// A record as loaded: its state may predate the current schema, so run it through migrateState
+export type StoredWorkspaceRecord = WorkspaceSummary & { state: unknown };
+
+/**
+ * Move the version 1 single-key state into a workspace record
+ */
+function migrateLegacyState(transaction: IDBTransaction, db: IDBDatabase) {
+    if (!db.objectStoreNames.contains(LEGACY_STORE_NAME)) return;
+
+    const legacyStore = transaction.objectStore(LEGACY_STORE_NAME);
+    const request = legacyStore.get(LEGACY_STATE_KEY);
+
+    request.onsuccess = () => {
+        if (request.result) {
+            const id = nanoid();
+            const record: StoredWorkspaceRecord = {
+                id,
+                name: 'My Workspace',
+                updatedAt: Date.now(),
+                state: request.result,
+            };
+            transaction.objectStore(WORKSPACES_STORE_NAME).put(record);
+            transaction.objectStore(META_STORE_NAME).put(id, LAST_WORKSPACE_KEY);
+        }
+        db.deleteObjectStore(LEGACY_STORE_NAME);
+    };
+}
 
 /**
  * Initialize IndexedDB database
@@ -21,91 +68,181 @@ function openDatabase(): Promise<IDBDatabase> {
 
         request.onupgradeneeded = (event) => {
             const db = (event.target as IDBOpenDBRequest).result;
+            const transaction = (event.target as IDBOpenDBRequest).transaction!;
+
+            // Create object stores if they don't exist
+            if (!db.objectStoreNames.contains(WORKSPACES_STORE_NAME)) {
+                db.createObjectStore(WORKSPACES_STORE_NAME, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(META_STORE_NAME)) {
+                db.createObjectStore(META_STORE_NAME);
+            }
+            if (!db.objectStoreNames.contains(FILES_STORE_NAME)) {
+                db.createObjectStore(FILES_STORE_NAME);
+            }
+            if (!db.objectStoreNames.contains(CASSETTES_STORE_NAME)) {
+                db.createObjectStore(CASSETTES_STORE_NAME, { keyPath: 'id' });
+            }
 
-            // Create object store if it doesn't exist
-            if (!db.objectStoreNames.contains(STORE_NAME)) {
-                db.createObjectStore(STORE_NAME);
+            if (event.oldVersion < 2) {
+                migrateLegacyState(transaction, db);
             }
         };
     });
 }
 
 /**
- * Save canvas state to IndexedDB
+ * Run one request against a store and resolve with its result
  */
-export async function saveState(state: Partial<CanvasState>): Promise<void> {
+async function runRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => {
+            db.close();
+            resolve(request.result as T);
+        };
+        transaction.onerror = () => {
+            db.close();
+            reject(transaction.error ?? new Error(`IndexedDB ${mode} on ${storeName} failed`));
+        };
+    });
+}
+
+/**
+ * Save a workspace to IndexedDB
+ */
+export async function saveWorkspace(record: WorkspaceRecord): Promise<void> {
     try {
-        const db = await openDatabase();
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
+        await runRequest(WORKSPACES_STORE_NAME, 'readwrite', (store) => store.put(record));
+    } catch (error) {
+        console.error('Error saving workspace to IndexedDB:', error);
+        throw error;
+    }
+}
 
-        store.put(state, 'canvasState');
+/**
+ * Load a workspace from IndexedDB
+ */
+export async function loadWorkspace(id: string): Promise<StoredWorkspaceRecord | null> {
+    try {
+        const record = await runRequest<StoredWorkspaceRecord | undefined>(WORKSPACES_STORE_NAME, 'readonly', (store) => store.get(id));
+        return record || null;
+    } catch (error) {
+        console.error('Error loading workspace from IndexedDB:', error);
+        return null;
+    }
+}
 
-        return new Promise((resolve, reject) => {
-            transaction.oncomplete = () => {
-                db.close();
-                resolve();
-            };
-            transaction.onerror = () => {
-                db.close();
-                reject(new Error('Failed to save state'));
-            };
-        });
+/**
+ * List saved workspaces by name, without their state
+ */
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+    try {
+        const records = await runRequest<StoredWorkspaceRecord[]>(WORKSPACES_STORE_NAME, 'readonly', (store) => store.getAll());
+        return records
+            .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+            .sort((a, b) => a.name.localeCompare(b.name));
     } catch (error) {
-        console.error('Error saving state to IndexedDB:', error);
+        console.error('Error listing workspaces from IndexedDB:', error);
+        return [];
+    }
+}
+
+/**
+ * Delete a workspace from IndexedDB
+ */
+export async function deleteWorkspace(id: string): Promise<void> {
+    try {
+        await runRequest(WORKSPACES_STORE_NAME, 'readwrite', (store) => store.delete(id));
+    } catch (error) {
+        console.error('Error deleting workspace from IndexedDB:', error);
         throw error;
     }
 }
 
 /**
- * Load canvas state from IndexedDB
+ * Remember the workspace to open on the next start
  */
-export async function loadState(): Promise<Partial<CanvasState> | null> {
+export async function setLastWorkspaceId(id: string): Promise<void> {
     try {
-        const db = await openDatabase();
-        const transaction = db.transaction(STORE_NAME, 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.get('canvasState');
-
-        return new Promise((resolve, reject) => {
-            request.onsuccess = () => {
-                db.close();
-                resolve(request.result || null);
-            };
-            request.onerror = () => {
-                db.close();
-                reject(new Error('Failed to load state'));
-            };
-        });
+        await runRequest(META_STORE_NAME, 'readwrite', (store) => store.put(id, LAST_WORKSPACE_KEY));
+    } catch (error) {
+        console.error('Error saving last workspace to IndexedDB:', error);
+    }
+}
+
+export async function getLastWorkspaceId(): Promise<string | null> {
+    try {
+        const id = await runRequest<string | undefined>(META_STORE_NAME, 'readonly', (store) => store.get(LAST_WORKSPACE_KEY));
+        return id || null;
+    } catch (error) {
+        console.error('Error loading last workspace from IndexedDB:', error);
+        return null;
+    }
+}
+
+/**
+ * Store the contents of a file picked for a multipart body
+ */
+export async function saveFile(id: string, blob: Blob): Promise<void> {
+    try {
+        await runRequest(FILES_STORE_NAME, 'readwrite', (store) => store.put(blob, id));
     } catch (error) {
-        console.error('Error loading state from IndexedDB:', error);
+        console.error('Error saving file to IndexedDB:', error);
+        throw error;
+    }
+}
+
+/**
+ * Load a stored file's contents (null when it is gone, e.g. in an imported workspace)
+ */
+export async function loadFile(id: string): Promise<Blob | null> {
+    try {
+        const blob = await runRequest<Blob | undefined>(FILES_STORE_NAME, 'readonly', (store) => store.get(id));
+        return blob || null;
+    } catch (error) {
+        console.error('Error loading file from IndexedDB:', error);
         return null;
     }
 }
 
 /**
- * Clear all data from IndexedDB
+ * Save a record/replay cassette
  */
-export async function clearState(): Promise<void> {
+export async function saveCassette(cassette: Cassette): Promise<void> {
     try {
-        const db = await openDatabase();
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
+        await runRequest(CASSETTES_STORE_NAME, 'readwrite', (store) => store.put(cassette));
+    } catch (error) {
+        console.error('Error saving cassette to IndexedDB:', error);
+        throw error;
+    }
+}
 
-        store.clear();
+/**
+ * List stored cassettes by name, with their entries
+ */
+export async function listCassettes(): Promise<Cassette[]> {
+    try {
+        const cassettes = await runRequest<Cassette[]>(CASSETTES_STORE_NAME, 'readonly', (store) => store.getAll());
+        return cassettes.sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+        console.error('Error listing cassettes from IndexedDB:', error);
+        return [];
+    }
+}
 
-        return new Promise((resolve, reject) => {
-            transaction.oncomplete = () => {
-                db.close();
-                resolve();
-            };
-            transaction.onerror = () => {
-                db.close();
-                reject(new Error('Failed to clear state'));
-            };
-        });
+export async function deleteCassette(id: string): Promise<void> {
+    try {
+        await runRequest(CASSETTES_STORE_NAME, 'readwrite', (store) => store.delete(id));
     } catch (error) {
-        console.error('Error clearing state from IndexedDB:', error);
+        console.error('Error deleting cassette from IndexedDB:', error);
         throw error;
     }
 }
@@ -0,0 +1,100 @@
+import type { ApiBlock, CanvasState, ImportedSpec } from '../types';
+
+// Bump when BlockData or CanvasState change shape, and add a migration from the previous version below
+export const CURRENT_SCHEMA_VERSION = 4;
+
+// The part of CanvasState that is saved to IndexedDB, stamped with the schema version it was written with
+export type PersistedState = Pick<
+  CanvasState,
+  | 'nodes'
+  | 'edges'
+  | 'activePathId'
+  | 'activePathNodes'
+  | 'history'
+  | 'bodyHistory'
+  | 'specs'
+  | 'vcr'
+  | 'variables'
+  | 'environments'
+  | 'activeEnvironmentId'
+> & {
+  schemaVersion: number;
+};
+
+type RawState = Record<string, unknown>;
+
+// migrations[n] upgrades a state from version n to n + 1
+const migrations: Record<number, (state: RawState) => RawState> = {
+  // Version 1 is the unversioned state saved before schema versions existed;
+  // fields added since then may be missing
+  1: (state) => ({
+    ...state,
+    nodes: state.nodes ?? [],
+    edges: state.edges ?? [],
+    activePathId: state.activePathId ?? null,
+    activePathNodes: state.activePathNodes ?? [],
+    history: state.history ?? [],
+    bodyHistory: state.bodyHistory ?? [],
+    variables: state.variables ?? {},
+    environments: state.environments ?? [],
+    activeEnvironmentId: state.activeEnvironmentId ?? null,
+  }),
+  // Version 3 keeps imported specs to check responses against
+  2: (state) => ({
+    ...state,
+    specs: state.specs ?? [],
+  }),
+  // Version 4 adds record/replay mode
+  3: (state) => ({
+    ...state,
+    vcr: state.vcr ?? { mode: 'off', cassetteId: null },
+  }),
+};
+
+// The imported specs that method blocks still link to
+export function linkedSpecs(specs: ImportedSpec[], nodes: ApiBlock[]): ImportedSpec[] {
+  return specs.filter((spec) => nodes.some((node) => node.data.operation?.specId === spec.id));
+}
+
+// Pick the persistable fields of the store
+export function toPersistedState(state: CanvasState): PersistedState {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    nodes: state.nodes,
+    edges: state.edges,
+    activePathId: state.activePathId,
+    activePathNodes: state.activePathNodes,
+    history: state.history,
+    bodyHistory: state.bodyHistory,
+    // Specs no block links to anymore (replaced by a re-import) are not kept
+    specs: linkedSpecs(state.specs, state.nodes),
+    vcr: state.vcr,
+    variables: state.variables,
+    environments: state.environments,
+    activeEnvironmentId: state.activeEnvironmentId,
+    // Don't persist request/response as they're transient
+  };
+}
+
+// Upgrade a saved state (or workspace file contents) of any older version to the current shape
+export function migrateState(saved: unknown): PersistedState {
+  if (!saved || typeof saved !== 'object') {
+    throw new Error('Saved state is not an object');
+  }
+
+  let state = saved as RawState;
+  let version = typeof state.schemaVersion === 'number' ? state.schemaVersion : 1;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Saved with a newer version of TLDFetch (schema ${version}); please update`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from schema version ${version}`);
+    state = migrate(state);
+    version++;
+  }
+
+  return { ...state, schemaVersion: CURRENT_SCHEMA_VERSION } as PersistedState;
+}
@@ -1,15 +1,34 @@
 import { create } from 'zustand';
-import { addEdge, applyNodeChanges, applyEdgeChanges, type Connection, type NodeChange, type EdgeChange } from 'reactflow';
+import { addEdge, applyNodeChanges, applyEdgeChanges, type Connection, type Edge, type NodeChange, type EdgeChange } from 'reactflow';
 import { nanoid } from 'nanoid';
-import type { CanvasState, ApiBlock, BlockType, HttpMethod, RequestState, ResponseState, BodyField, HeaderField, HistoryItem, RequestBodyHistoryItem } from '../types';
-import { saveState, loadState } from './indexedDB';
-import { importOpenAPI, parseOpenAPIJson, validateOpenAPISpec, type ImportResult } from '../utils/openApiImporter';
+import type { CanvasState, WorkspaceSummary, ApiBlock, BlockType, HttpMethod, RequestState, ResponseState, BodyField, BodyType, FormField, StoredFileInfo, HeaderField, QueryParam, QueryArrayStyle, MockSettings, Cassette, VcrSettings, HistoryItem, RequestBodyHistoryItem, Environment, CaptureRule, FlowStepStatus, Assertion, RunResultItem } from '../types';
+import { buildUrl, buildRequest, toRequestState, type BuiltRequest } from '../utils/requestBuilder';
+import { sendRequest } from '../utils/httpClient';
+import { createMockAdapter } from '../utils/mockServer';
+import { addCassetteEntry, createCassette, findCassetteEntry, parseCassetteFile, replayEntry, serializeCassette } from '../utils/cassette';
+import { extractCaptureValue } from '../utils/captures';
+import { evaluateAssertions } from '../utils/assertions';
+import { validateResponse } from '../utils/contractValidation';
+import { selectMethodNodes, runWithConcurrency, type CollectionRunOptions } from '../utils/collectionRunner';
+import { isFlowEdge, createFlowEdge, getFlowSequence, isSuccessfulResponse, FLOW_HANDLE_ID } from '../utils/flow';
+import { saveWorkspace, loadWorkspace, listWorkspaces, deleteWorkspace as deleteStoredWorkspace, getLastWorkspaceId, setLastWorkspaceId, saveFile, saveCassette, listCassettes, deleteCassette as deleteStoredCassette } from './indexedDB';
+import { linkedSpecs, migrateState, toPersistedState } from './migrations';
+import { parseWorkspaceFile, serializeWorkspace } from './workspaceFile';
+import { createImportedSpec, extractEndpoints, importOpenAPI, parseOpenAPIJson, serverBlockData, validateOpenAPISpec, type ImportResult } from '../utils/openApiImporter';
+import { mergeEndpoints, type MergePlan } from '../utils/importMerge';
+import { importPostman, validatePostmanCollection } from '../utils/postmanImporter';
+import { attachEndpoint } from '../utils/importLayout';
+import { importHar, validateHar } from '../utils/har';
+import { parseCurl } from '../utils/curl';
+import { interpolate } from '../utils/template';
+import { createUndoHistory } from '../utils/undoHistory';
+import { exportOpenAPI, serializeSpec, type OpenAPIVersion, type SpecFormat } from '../utils/openApiExporter';
 
 // Helper function to compute the active path nodes
 function computeActivePathNodes(
   activePathId: string | null,
   nodes: ApiBlock[],
-  edges: any[]
+  edges: Edge[]
 ): string[] {
   if (!activePathId) return [];
 
@@ -29,7 +48,8 @@ function computeActivePathNodes(
       return true;
     }
 
-    const incomingEdges = edges.filter((e) => e.target === nodeId);
+    // "Then" edges link method blocks into flows and are not part of the URL path
+    const incomingEdges = edges.filter((e) => e.target === nodeId && !isFlowEdge(e));
 
     for (const edge of incomingEdges) {
       if (traceBackwards(edge.source)) {
@@ -45,6 +65,43 @@ function computeActivePathNodes(
   return pathNodeIds;
 }
 
+// Helper function to resolve the traced path of a node into blocks (base URL first)
+function getPathBlocks(nodeId: string, nodes: ApiBlock[], edges: Edge[]): ApiBlock[] {
+  return computeActivePathNodes(nodeId, nodes, edges)
+    .map((id) => nodes.find((n) => n.id === id))
+    .filter((node): node is ApiBlock => !!node);
+}
+
+/**
+ * Merge the global scope with the active environment (environment values win)
+ */
+export function getScopedVariables(
+  state: Pick<CanvasState, 'variables' | 'environments' | 'activeEnvironmentId'>
+): Record<string, string> {
+  const activeEnvironment = state.environments.find(
+    (env) => env.id === state.activeEnvironmentId
+  );
+  return { ...state.variables, ...activeEnvironment?.variables };
+}
+
+// Helper function to write variables into the active environment, or the global scope when none is selected
+function writeScopedVariables(
+  state: CanvasState,
+  values: Record<string, string>
+): Pick<CanvasState, 'variables'> | Pick<CanvasState, 'environments'> {
+  if (state.activeEnvironmentId) {
+    return {
+      environments: state.environments.map((env) =>
+        env.id === state.activeEnvironmentId
+          ? { ...env, variables: { ...env.variables, ...values } }
+          : env
+      ),
+    };
+  }
+
+  return { variables: { ...state.variables, ...values } };
+}
+
 interface CanvasStore extends CanvasState {
   // Node operations
   addNode: (type: BlockType, value: string, method?: HttpMethod) => void;
@@ -53,16 +110,37 @@ interface CanvasStore extends CanvasState {
   onConnect: (connection: Connection) => void;
   updateNodeValue: (id: string, value: string) => void;
   updateNodeBodyFields: (id: string, bodyFields: BodyField[]) => void;
+  updateNodeBodyType: (id: string, bodyType: BodyType) => void;
+  updateNodeFormFields: (id: string, formFields: FormField[]) => void;
+  updateNodeRawBody: (id: string, rawBody: string) => void;
+  // Keep a file picked for a multipart field in IndexedDB
+  storeFile: (file: File) => Promise<StoredFileInfo>;
   updateNodeHeaders: (id: string, headers: HeaderField[]) => void;
+  updateNodeBearerToken: (id: string, bearerToken: string) => void;
+  updateNodeQueryParams: (id: string, queryParams: QueryParam[]) => void;
+  updateNodeCaptures: (id: string, captures: CaptureRule[]) => void;
+  updateNodeStopOnFailure: (id: string, stopOnFailure: boolean) => void;
+  updateNodeAssertions: (id: string, assertions: Assertion[]) => void;
+  updateNodeArrayStyle: (id: string, arrayStyle: QueryArrayStyle) => void;
+  updateNodeMock: (id: string, mock: MockSettings) => void;
   ensureRequestNode: (methodNodeId: string) => void;
 
   // Path operations
   setActivePath: (nodeId: string | null) => void;
   getComputedUrl: () => string | null;
+  buildRequestForNode: (nodeId: string) => BuiltRequest | null;
+  // Send a method block's built request: replayed from the cassette, answered by mock mode, or over the network
+  // (and recorded); throws when replay has no matching recording
+  sendBuiltRequest: (nodeId: string, request: BuiltRequest) => Promise<ResponseState>;
+
+  // Send the request of a method block; throws when placeholders are unresolved
+  // Silent sends (collection runs) skip the response panel, request and body history
+  sendMethodNode: (nodeId: string, options?: { silent?: boolean }) => Promise<ResponseState | null>;
 
   // Request/Response
   setRequest: (request: RequestState) => void;
-  setResponse: (response: ResponseState, url?: string, method?: HttpMethod) => void;
+  // Passing the request that produced the response also records it in history
+  setResponse: (response: ResponseState, request?: RequestState) => void;
   clearResponse: () => void;
   clearHistory: () => void;
   removeHistoryItem: (id: string) => void;
@@ -72,14 +150,74 @@ interface CanvasStore extends CanvasState {
   getBodyHistoryForEndpoint: (method: HttpMethod, url: string) => RequestBodyHistoryItem[];
   removeBodyHistoryItem: (id: string) => void;
 
+  // Flows: run the chain of method blocks linked by "then" edges, starting at a flow head
+  runFlow: (startNodeId: string) => Promise<void>;
+  stopFlow: () => void;
+
+  // Collection runs: send many method blocks with bounded concurrency into a run report
+  runCollection: (options: CollectionRunOptions) => Promise<void>;
+  stopCollection: () => void;
+  updateNodeTags: (id: string, tags: string[]) => void;
+
+  // Run a method block's capture rules against its response and store the results as variables
+  runCaptures: (nodeId: string, response: ResponseState) => void;
+
   // Variables
   setVariable: (key: string, value: string) => void;
+  getResolvedVariables: () => Record<string, string>;
+
+  // Environments (scopeId null = global scope)
+  addEnvironment: (name: string) => string;
+  renameEnvironment: (id: string, name: string) => void;
+  removeEnvironment: (id: string) => void;
+  setActiveEnvironment: (id: string | null) => void;
+  setScopeVariables: (scopeId: string | null, variables: Record<string, string>) => void;
+
+  // Record/replay: the workspace's mode and cassette, and the shared cassettes in IndexedDB
+  setVcr: (settings: Partial<VcrSettings>) => void;
+  createCassette: (name: string) => Promise<string>;
+  updateCassette: (id: string, changes: Partial<Pick<Cassette, 'name' | 'rules' | 'entries'>>) => Promise<void>;
+  deleteCassette: (id: string) => Promise<void>;
+  // Serializes a cassette as a .cassette.json file
+  exportCassette: (id: string) => string;
+  // Adds the cassette of a .cassette.json file as a new one; returns its name
+  importCassette: (content: string) => Promise<string>;
 
   // Reset
   resetToDefault: () => void;
 
+  // Undo/redo of canvas and block edits (Ctrl+Z / Ctrl+Shift+Z)
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+
+  // Workspace actions: each workspace is a separate IndexedDB record; only the active one is saved
+  createWorkspace: (name: string) => Promise<void>;
+  switchWorkspace: (id: string) => Promise<void>;
+  renameWorkspace: (id: string, name: string) => Promise<void>;
+  duplicateWorkspace: (id: string) => Promise<void>;
+  deleteWorkspace: (id: string) => Promise<void>;
+
   // Import
   importFromOpenAPI: (jsonString: string) => ImportResult;
+  // Computes what merging a spec into the canvas would change, without applying it
+  previewOpenAPIMerge: (jsonString: string) => MergePlan;
+  // Applies a merge preview: new endpoints are added, removed ones flagged, everything else kept
+  applyImportMerge: (plan: MergePlan) => void;
+  // Replaces the canvas with the collection's requests and merges its variables into the global scope
+  importFromPostman: (jsonString: string) => ImportResult;
+  // Replaces the canvas with one method block per distinct endpoint of a HAR capture
+  importFromHar: (jsonString: string) => ImportResult;
+  // Serializes the canvas, variables and body history as a .tldfetch.json file
+  exportWorkspace: () => string;
+  // Replaces the canvas, variables and body history with a .tldfetch.json file's (older files are migrated)
+  importWorkspace: (content: string) => void;
+  // Adds blocks for a pasted cURL command, reusing matching base URL/resource blocks; returns the new method block id
+  importFromCurl: (command: string) => string;
+
+  // Export
+  exportToOpenAPI: (version: OpenAPIVersion, format: SpecFormat) => string;
 }
 
 // Create default starter nodes and edges
@@ -93,6 +231,9 @@ function createDefaultState(): CanvasState {
   const loginMethodId = 'default-login-method';
 
   return {
+    // Set when the store is hydrated or a workspace is opened
+    workspaceId: '',
+    workspaces: [],
     nodes: [
       // Base URL node
       {
@@ -139,6 +280,10 @@ function createDefaultState(): CanvasState {
             { key: 'email', value: '' },
             { key: 'password', value: '' },
           ],
+          // Feeds {{token}} to every other request once logged in
+          captures: [
+            { id: 'default-login-token', variable: 'token', source: 'body', path: '$.token' },
+          ],
         },
       },
     ],
@@ -160,40 +305,238 @@ function createDefaultState(): CanvasState {
     response: null,
     history: [],
     bodyHistory: [],
+    specs: [],
+    vcr: { mode: 'off', cassetteId: null },
+    cassettes: [],
     variables: {},
+    environments: [],
+    activeEnvironmentId: null,
+    flowRun: null,
+    testResults: {},
+    runReport: null,
   };
 }
 
 // Default initial state
 const defaultState: CanvasState = createDefaultState();
 
-// Debounce helper - saves complete state from store
+// Writes the store's state to the active workspace's record
+const saveActiveWorkspace = async () => {
+  const state = useCanvasStore.getState();
+  if (!state.workspaceId) return;
+
+  const summary = state.workspaces.find((workspace) => workspace.id === state.workspaceId);
+  await saveWorkspace({
+    id: state.workspaceId,
+    name: summary?.name ?? 'Untitled',
+    updatedAt: Date.now(),
+    // Save all persistable state, stamped with the schema version
+    state: toPersistedState(state),
+  });
+};
+
+// Debounce helper - saves complete state from store into the active workspace only
 let saveTimeout: number | undefined;
 const debouncedSave = () => {
   if (saveTimeout) {
     clearTimeout(saveTimeout);
   }
   saveTimeout = window.setTimeout(() => {
-    const state = useCanvasStore.getState();
-    // Save all persistable state
-    saveState({
-      nodes: state.nodes,
-      edges: state.edges,
-      activePathId: state.activePathId,
-      activePathNodes: state.activePathNodes,
-      history: state.history,
-      bodyHistory: state.bodyHistory,
-      variables: state.variables,
-      // Don't persist request/response as they're transient
-    }).catch((error) => {
+    saveTimeout = undefined;
+    saveActiveWorkspace().catch((error) => {
       console.error('Failed to persist state:', error);
     });
   }, 500); // 500ms debounce
 };
 
+// Drop a pending save (e.g. of a workspace being deleted)
+const cancelPendingSave = () => {
+  if (saveTimeout) {
+    clearTimeout(saveTimeout);
+    saveTimeout = undefined;
+  }
+};
+
+// Write a pending save right away, before another workspace replaces the state
+const flushPendingSave = async () => {
+  if (!saveTimeout) return;
+  cancelPendingSave();
+  await saveActiveWorkspace();
+};
+
+const sortWorkspaces = (workspaces: WorkspaceSummary[]) =>
+  [...workspaces].sort((a, b) => a.name.localeCompare(b.name));
+
+// The adapter answering a method block's requests when its base URL block is in mock mode
+const mockAdapterFor = (nodeId: string) => {
+  const state = useCanvasStore.getState();
+  const pathBlocks = getPathBlocks(nodeId, state.nodes, state.edges);
+  const base = pathBlocks[0];
+  if (!base || base.data.type !== 'baseUrl' || !base.data.mock?.enabled) return undefined;
+
+  // The spec the block was imported from, else one that another block under the same base URL links to
+  const methodNode = pathBlocks[pathBlocks.length - 1];
+  const specId = methodNode.data.operation?.specId ?? state.nodes.find(
+    (node) => node.data.operation && getPathBlocks(node.id, state.nodes, state.edges)[0]?.id === base.id
+  )?.data.operation?.specId;
+  const spec = state.specs.find((stored) => stored.id === specId);
+
+  return createMockAdapter(spec?.document, interpolate(base.data.value, getScopedVariables(state)), base.data.mock);
+};
+
+// Write a recorded response into a cassette, in the store and IndexedDB
+const recordResponse = async (cassetteId: string, request: RequestState, response: ResponseState) => {
+  const cassette = useCanvasStore.getState().cassettes.find((stored) => stored.id === cassetteId);
+  if (!cassette) return;
+
+  const updated = addCassetteEntry(cassette, request, response);
+  useCanvasStore.setState((state) => ({
+    cassettes: state.cassettes.map((stored) => (stored.id === cassetteId ? updated : stored)),
+  }));
+  await saveCassette(updated).catch((error) => {
+    console.error('Failed to save the recording:', error);
+  });
+};
+
+const sortCassettes = (cassettes: Cassette[]) =>
+  [...cassettes].sort((a, b) => a.name.localeCompare(b.name));
+
+// Undo steps hold the canvas only: variables also change from captures, which shouldn't be undone
+// Imports also hold the specs and the variables they write; steps that replace the whole
+// workspace (Erase All, opening a workspace file) hold the rest of what they replace
+type WorkspaceSnapshot = Pick<
+  CanvasState,
+  'variables' | 'environments' | 'activeEnvironmentId' | 'history' | 'bodyHistory' | 'specs' | 'vcr'
+>;
+type UndoSnapshot = Pick<CanvasState, 'nodes' | 'edges'> & {
+  specs?: CanvasState['specs'];
+  // Values of the variables a step writes, from before it (undefined: not set)
+  variables?: Record<string, string | undefined>;
+  workspace?: WorkspaceSnapshot;
+};
+const undoHistory = createUndoHistory<UndoSnapshot>({ limit: 50, coalesceMs: 1000 });
+
+// What an undo step holds besides the canvas
+interface SnapshotParts {
+  specs?: boolean;
+  variableKeys?: string[];
+  workspace?: boolean;
+}
+
+const partsOf = (snapshot: UndoSnapshot | undefined): SnapshotParts => ({
+  specs: !!snapshot?.specs,
+  variableKeys: snapshot?.variables && Object.keys(snapshot.variables),
+  workspace: !!snapshot?.workspace,
+});
+
+const takeSnapshot = (parts: SnapshotParts = {}): UndoSnapshot => {
+  const { nodes, edges, variables, environments, activeEnvironmentId, history, bodyHistory, specs, vcr } = useCanvasStore.getState();
+  return {
+    nodes,
+    edges,
+    ...(parts.specs ? { specs } : {}),
+    ...(parts.variableKeys ? { variables: Object.fromEntries(parts.variableKeys.map((key) => [key, variables[key]])) } : {}),
+    ...(parts.workspace ? { workspace: { variables, environments, activeEnvironmentId, history, bodyHistory, specs, vcr } } : {}),
+  };
+};
+
+// Save the canvas as an undo step before an edit; edits with the same key in quick succession share one step
+const recordUndo = (key?: string) => {
+  undoHistory.record(takeSnapshot(), key);
+  useCanvasStore.setState({ canUndo: true, canRedo: false });
+};
+
+// Save the canvas, specs and the variables an import is about to write as an undo step
+const recordImportUndo = (variableKeys: string[]) => {
+  undoHistory.record(takeSnapshot({ specs: true, variableKeys }));
+  useCanvasStore.setState({ canUndo: true, canRedo: false });
+};
+
+// Save the whole workspace as an undo step before replacing it
+const recordWorkspaceUndo = () => {
+  undoHistory.record(takeSnapshot({ workspace: true }));
+  useCanvasStore.setState({ canUndo: true, canRedo: false });
+};
+
+// Removals reported in the same tick come from one delete (reactflow removes a block's edges, then the block),
+// so they share a step; separate deletes get separate steps
+let removalStep = 0;
+let removalStepOpen = false;
+const removalKey = () => {
+  if (!removalStepOpen) {
+    removalStep++;
+    removalStepOpen = true;
+    queueMicrotask(() => {
+      removalStepOpen = false;
+    });
+  }
+  return `remove:${removalStep}`;
+};
+
+// Restore an undo/redo step, keeping the active path if its method block still exists
+const restoreSnapshot = (snapshot: UndoSnapshot) => {
+  const { workspace, specs, variables, ...canvas } = snapshot;
+  useCanvasStore.setState((state) => {
+    const activePathId = canvas.nodes.some((node) => node.id === state.activePathId) ? state.activePathId : null;
+    // Only the variables the step wrote go back; others keep their current values
+    let restoredVariables: Record<string, string> | undefined;
+    if (variables) {
+      restoredVariables = { ...state.variables };
+      for (const [key, value] of Object.entries(variables)) {
+        if (value === undefined) delete restoredVariables[key];
+        else restoredVariables[key] = value;
+      }
+    }
+    return {
+      ...canvas,
+      ...(specs ? { specs } : {}),
+      ...(restoredVariables ? { variables: restoredVariables } : {}),
+      ...workspace,
+      activePathId,
+      activePathNodes: computeActivePathNodes(activePathId, canvas.nodes, canvas.edges),
+      canUndo: undoHistory.canUndo(),
+      canRedo: undoHistory.canRedo(),
+    };
+  });
+  debouncedSave();
+};
+
+// Transient state that belongs to the workspace being left
+const clearedTransientState: Pick<CanvasState, 'request' | 'response' | 'flowRun' | 'testResults' | 'runReport'> = {
+  request: null,
+  response: null,
+  flowRun: null,
+  testResults: {},
+  runReport: null,
+};
+
+// Load a saved workspace into the store (migrating it) and remember it as the last opened one
+async function openWorkspace(id: string) {
+  const record = await loadWorkspace(id);
+  if (!record) throw new Error('Workspace not found');
+
+  const migratedState = migrateState(record.state);
+  undoHistory.clear();
+  useCanvasStore.setState({
+    ...clearedTransientState,
+    ...migratedState,
+    workspaceId: id,
+    canUndo: false,
+    canRedo: false,
+  });
+  await setLastWorkspaceId(id);
+
+  // Write the upgraded shape back so the migration runs once
+  if ((record.state as { schemaVersion?: number }).schemaVersion !== migratedState.schemaVersion) {
+    debouncedSave();
+  }
+}
+
 // Create the store with default state (will be hydrated after creation)
 export const useCanvasStore = create<CanvasStore>((set, get) => ({
   ...defaultState,
+  canUndo: false,
+  canRedo: false,
 
   addNode: (type, value, method) => {
     const newNode: ApiBlock = {
@@ -203,6 +546,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       data: { type, value, method },
     };
 
+    recordUndo();
     set((state) => {
       const newState = { nodes: [...state.nodes, newNode] };
       debouncedSave();
@@ -211,6 +555,14 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   onNodesChange: (changes) => {
+    // Selection and measurement changes are not edits
+    const movedIds = changes.filter((change) => change.type === 'position').map((change) => change.id);
+    if (changes.some((change) => change.type === 'remove' || change.type === 'add')) {
+      recordUndo(removalKey());
+    } else if (movedIds.length > 0) {
+      recordUndo(`move:${movedIds.join(',')}`);
+    }
+
     set((state) => {
       const newNodes = applyNodeChanges(changes, state.nodes) as ApiBlock[];
       const newActivePathNodes = computeActivePathNodes(
@@ -228,6 +580,10 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   onEdgesChange: (changes) => {
+    if (changes.some((change) => change.type === 'remove' || change.type === 'add')) {
+      recordUndo(removalKey());
+    }
+
     set((state) => {
       const newEdges = applyEdgeChanges(changes, state.edges);
       const newActivePathNodes = computeActivePathNodes(
@@ -245,8 +601,24 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   onConnect: (connection) => {
+    if (connection.sourceHandle === FLOW_HANDLE_ID) {
+      // "Then" edges may only chain method blocks
+      const target = get().nodes.find((n) => n.id === connection.target);
+      if (!connection.source || !connection.target || target?.data.type !== 'method' || connection.source === connection.target) {
+        return;
+      }
+    }
+
+    recordUndo();
     set((state) => {
-      const newEdges = addEdge({ ...connection, id: nanoid() }, state.edges);
+      let newEdges: Edge[];
+
+      if (connection.sourceHandle === FLOW_HANDLE_ID && connection.source && connection.target) {
+        newEdges = addEdge(createFlowEdge(nanoid(), connection.source, connection.target), state.edges);
+      } else {
+        newEdges = addEdge({ ...connection, id: nanoid() }, state.edges);
+      }
+
       const newActivePathNodes = computeActivePathNodes(
         state.activePathId,
         state.nodes,
@@ -262,6 +634,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   updateNodeValue: (id, value) => {
+    recordUndo(`value:${id}`);
     set((state) => {
       const newNodes = state.nodes.map((node) =>
         node.id === id
@@ -274,6 +647,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   updateNodeBodyFields: (id, bodyFields) => {
+    recordUndo(`bodyFields:${id}`);
     set((state) => {
       const newNodes = state.nodes.map((node) =>
         node.id === id
@@ -285,7 +659,53 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
     });
   },
 
+  updateNodeBodyType: (id, bodyType) => {
+    recordUndo();
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, bodyType } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeFormFields: (id, formFields) => {
+    recordUndo(`formFields:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, formFields } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeRawBody: (id, rawBody) => {
+    recordUndo(`rawBody:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, rawBody } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  storeFile: async (file) => {
+    const info: StoredFileInfo = { id: nanoid(), name: file.name, type: file.type, size: file.size };
+    await saveFile(info.id, file);
+    return info;
+  },
+
   updateNodeHeaders: (id, headers) => {
+    recordUndo(`headers:${id}`);
     set((state) => {
       const newNodes = state.nodes.map((node) =>
         node.id === id
@@ -297,6 +717,97 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
     });
   },
 
+  updateNodeBearerToken: (id, bearerToken) => {
+    recordUndo(`bearerToken:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, bearerToken } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeQueryParams: (id, queryParams) => {
+    recordUndo(`queryParams:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, queryParams } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeArrayStyle: (id, arrayStyle) => {
+    recordUndo(`arrayStyle:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, arrayStyle } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeMock: (id, mock) => {
+    recordUndo(`mock:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, mock } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeCaptures: (id, captures) => {
+    recordUndo(`captures:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, captures } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeStopOnFailure: (id, stopOnFailure) => {
+    recordUndo(`stopOnFailure:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, stopOnFailure } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  updateNodeAssertions: (id, assertions) => {
+    recordUndo(`assertions:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, assertions } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
   ensureRequestNode: (methodNodeId) => {
     const { nodes, edges } = get();
 
@@ -331,6 +842,7 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       target: requestNode.id,
     };
 
+    recordUndo();
     set((state) => {
       const newNodes = [...state.nodes, requestNode];
       const newEdges = [...state.edges, newEdge];
@@ -356,57 +868,84 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
   },
 
   getComputedUrl: () => {
-    const { nodes, edges, activePathId, variables } = get();
+    const { nodes, edges, activePathId } = get();
 
     if (!activePathId) return null;
 
-    const activeNode = nodes.find((n) => n.id === activePathId);
-    if (!activeNode) return null;
-
-    const path: string[] = [];
-    const visitedNodes = new Set<string>();
-
-    const traceBackwards = (nodeId: string): boolean => {
-      if (visitedNodes.has(nodeId)) return false;
-      visitedNodes.add(nodeId);
+    return buildUrl(getPathBlocks(activePathId, nodes, edges), getScopedVariables(get()));
+  },
 
-      const node = nodes.find((n) => n.id === nodeId);
-      if (!node) return false;
+  buildRequestForNode: (nodeId) => {
+    const { nodes, edges } = get();
+    return buildRequest(getPathBlocks(nodeId, nodes, edges), getScopedVariables(get()));
+  },
 
-      if (node.data.type === 'baseUrl') {
-        path.unshift(node.data.value);
-        return true;
-      }
+  sendBuiltRequest: async (nodeId, request) => {
+    const { vcr, cassettes } = get();
+    const cassette = cassettes.find((stored) => stored.id === vcr.cassetteId);
+    if (vcr.mode !== 'off' && !cassette) {
+      throw new Error(`${vcr.mode === 'record' ? 'Record' : 'Replay'} mode has no cassette selected`);
+    }
 
-      if (node.data.type === 'resource') {
-        let value = node.data.value;
+    const requestState = toRequestState(request);
+    if (vcr.mode === 'replay' && cassette) {
+      const entry = findCassetteEntry(cassette, requestState);
+      if (!entry) throw new Error(`No recording in "${cassette.name}" matches ${request.method} ${request.url}`);
+      return replayEntry(cassette, entry);
+    }
 
-        const isParam = /\{(.+)\}/.test(value);
-        if (isParam) {
-          value = value.replace(/\{([\w-]+)\}/g, (_, key) => {
-            return variables[key] || `{${key}}`;
-          });
-        }
+    const mockAdapter = mockAdapterFor(nodeId);
+    const response = await sendRequest(request, mockAdapter);
+    if (mockAdapter) {
+      // Cassettes hold real responses only
+      response.mocked = true;
+    } else if (vcr.mode === 'record' && cassette && response.status !== 0) {
+      await recordResponse(cassette.id, requestState, response);
+    }
+    return response;
+  },
 
-        path.unshift(value);
-      }
+  sendMethodNode: async (nodeId, options = {}) => {
+    const request = get().buildRequestForNode(nodeId);
+    if (!request) return null;
 
-      const incomingEdges = edges.filter((e) => e.target === nodeId);
+    if (request.unresolved.length > 0) {
+      throw new Error(`Unresolved variables: ${request.unresolved.join(', ')}`);
+    }
+    if (request.missing.length > 0) {
+      throw new Error(`Missing required parameters: ${request.missing.join(', ')}`);
+    }
 
-      for (const edge of incomingEdges) {
-        if (traceBackwards(edge.source)) {
-          return true;
-        }
-      }
+    // Save body to history before sending (if has body fields)
+    const node = get().nodes.find((n) => n.id === nodeId);
+    const bodyFields = node?.data.bodyFields || [];
+    if (request.body?.type === 'json' && !options.silent) {
+      get().addBodyHistory(request.method, request.url, bodyFields);
+    }
 
-      return false;
-    };
+    const response = await get().sendBuiltRequest(nodeId, request);
 
-    const foundPath = traceBackwards(activePathId);
+    const assertions = node?.data.assertions || [];
+    if (assertions.length > 0) {
+      const assertionResults = evaluateAssertions(assertions, response);
+      response.assertionResults = assertionResults;
+      set((state) => ({
+        testResults: { ...state.testResults, [nodeId]: assertionResults },
+      }));
+    }
 
-    if (!foundPath || path.length === 0) return null;
+    // Check the response against the spec operation the block was imported from
+    const operation = node?.data.operation;
+    const spec = operation && get().specs.find((stored) => stored.id === operation.specId);
+    if (operation && spec) {
+      response.contractResult = validateResponse(spec.document, operation, response);
+    }
 
-    return path.join('/').replace(/([^:]\/)\/+/g, '$1');
+    if (!options.silent) {
+      get().setResponse(response, toRequestState(request));
+    }
+    get().runCaptures(nodeId, response);
+    return response;
   },
 
   setRequest: (request) => {
@@ -414,18 +953,19 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
     debouncedSave();
   },
 
-  setResponse: (response, url, method) => {
+  setResponse: (response, request) => {
     set((state) => {
       const updates: Partial<CanvasState> = { response };
 
-      // Add to history if we have url and method
-      if (url && method) {
+      // Add to history if we know the request
+      if (request) {
         const historyItem: HistoryItem = {
           ...response,
           id: nanoid(),
-          url,
-          method,
+          url: request.url,
+          method: request.method,
           timestamp: Date.now(),
+          request,
         };
 
         // Keep last 10 items, newest first
@@ -491,21 +1031,401 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
     });
   },
 
+  runFlow: async (startNodeId) => {
+    if (get().flowRun?.running) return;
+
+    const { nodes, edges } = get();
+    const sequence = getFlowSequence(startNodeId, nodes, edges);
+    const stopOnFailure = nodes.find((n) => n.id === startNodeId)?.data.stopOnFailure ?? true;
+    const runId = nanoid();
+    const isCurrentRun = () => get().flowRun?.id === runId;
+
+    const updateStep = (nodeId: string, status: FlowStepStatus, error?: string) => {
+      set((state) => {
+        if (!state.flowRun || state.flowRun.id !== runId) return {};
+        return {
+          flowRun: {
+            ...state.flowRun,
+            steps: { ...state.flowRun.steps, [nodeId]: status },
+            errors: error ? { ...state.flowRun.errors, [nodeId]: error } : state.flowRun.errors,
+          },
+        };
+      });
+    };
+
+    set({
+      flowRun: {
+        id: runId,
+        startNodeId,
+        running: true,
+        sequence,
+        steps: Object.fromEntries(sequence.map((id) => [id, 'pending' as FlowStepStatus])),
+        errors: {},
+      },
+    });
+
+    for (const [index, nodeId] of sequence.entries()) {
+      // stopFlow() clears the running flag between steps
+      if (!isCurrentRun() || !get().flowRun?.running) {
+        sequence.slice(index).forEach((id) => updateStep(id, 'skipped'));
+        break;
+      }
+
+      updateStep(nodeId, 'running');
+      // Follow the flow on the canvas, so each step's URL and response are visible
+      get().setActivePath(nodeId);
+
+      let failed = false;
+      try {
+        // Each step is built at send time, so it sees variables captured by earlier steps
+        const response = await get().sendMethodNode(nodeId);
+        if (!response) {
+          failed = true;
+          updateStep(nodeId, 'failed', 'No URL path for this block');
+        } else if (!isSuccessfulResponse(response)) {
+          failed = true;
+          const failedAssertions = (response.assertionResults || []).filter((result) => !result.passed);
+          updateStep(nodeId, 'failed', failedAssertions.length > 0
+            ? `Failed: ${failedAssertions.map((result) => result.description).join(', ')}`
+            : `${response.status} ${response.statusText}`);
+        } else {
+          updateStep(nodeId, 'success');
+        }
+      } catch (error) {
+        failed = true;
+        updateStep(nodeId, 'failed', error instanceof Error ? error.message : 'Send failed');
+      }
+
+      if (failed && stopOnFailure) {
+        sequence.slice(index + 1).forEach((id) => updateStep(id, 'skipped'));
+        break;
+      }
+    }
+
+    if (isCurrentRun()) {
+      set((state) => ({
+        flowRun: state.flowRun ? { ...state.flowRun, running: false } : null,
+      }));
+    }
+  },
+
+  stopFlow: () => {
+    set((state) => ({
+      flowRun: state.flowRun ? { ...state.flowRun, running: false } : null,
+    }));
+  },
+
+  runCollection: async (options) => {
+    if (get().runReport?.running) return;
+
+    const targets = selectMethodNodes(get().nodes, options);
+    const reportId = nanoid();
+    const isCurrentRun = () => get().runReport?.id === reportId && get().runReport?.running;
+
+    set({
+      runReport: { id: reportId, startedAt: Date.now(), running: true, total: targets.length, results: [] },
+    });
+
+    const addResult = (result: RunResultItem) => {
+      set((state) => {
+        if (state.runReport?.id !== reportId) return {};
+        return { runReport: { ...state.runReport, results: [...state.runReport.results, result] } };
+      });
+    };
+
+    await runWithConcurrency(targets, options, async (node) => {
+      const method = node.data.method || 'GET';
+      const url = get().buildRequestForNode(node.id)?.url || '';
+
+      try {
+        const response = await get().sendMethodNode(node.id, { silent: true });
+        if (!response) {
+          addResult({ nodeId: node.id, method, url, status: 0, statusText: '', time: 0, passed: false, error: 'No URL path for this block' });
+          return;
+        }
+
+        addResult({
+          nodeId: node.id,
+          method,
+          url,
+          status: response.status,
+          statusText: response.statusText,
+          time: response.time,
+          passed: isSuccessfulResponse(response),
+          assertionResults: response.assertionResults,
+        });
+      } catch (error) {
+        addResult({
+          nodeId: node.id,
+          method,
+          url,
+          status: 0,
+          statusText: '',
+          time: 0,
+          passed: false,
+          error: error instanceof Error ? error.message : 'Send failed',
+        });
+      }
+    }, () => !isCurrentRun());
+
+    set((state) => {
+      if (state.runReport?.id !== reportId) return {};
+      return { runReport: { ...state.runReport, running: false, finishedAt: Date.now() } };
+    });
+  },
+
+  stopCollection: () => {
+    set((state) => ({
+      runReport: state.runReport ? { ...state.runReport, running: false, finishedAt: Date.now() } : null,
+    }));
+  },
+
+  updateNodeTags: (id, tags) => {
+    recordUndo(`tags:${id}`);
+    set((state) => {
+      const newNodes = state.nodes.map((node) =>
+        node.id === id
+          ? { ...node, data: { ...node.data, tags } }
+          : node
+      );
+      debouncedSave();
+      return { nodes: newNodes };
+    });
+  },
+
+  runCaptures: (nodeId, response) => {
+    const node = get().nodes.find((n) => n.id === nodeId);
+    const captures = node?.data.captures || [];
+    if (captures.length === 0) return;
+
+    const updatedAt = Date.now();
+    const values: Record<string, string> = {};
+
+    const newCaptures = captures.map((rule) => {
+      if (!rule.variable) return rule;
+
+      const value = extractCaptureValue(rule, response);
+      if (value === undefined) return rule;
+
+      values[rule.variable] = value;
+      return { ...rule, lastValue: value, updatedAt };
+    });
+
+    set((state) => {
+      const newNodes = state.nodes.map((n) =>
+        n.id === nodeId
+          ? { ...n, data: { ...n.data, captures: newCaptures } }
+          : n
+      );
+      debouncedSave();
+      return { nodes: newNodes, ...writeScopedVariables(state, values) };
+    });
+  },
+
   setVariable: (key, value) => {
+    // Writes go to the active environment, or to the global scope when none is selected
     set((state) => {
-      const newVariables = { ...state.variables, [key]: value };
       debouncedSave();
-      return { variables: newVariables };
+      return writeScopedVariables(state, { [key]: value });
     });
   },
 
+  getResolvedVariables: () => {
+    return getScopedVariables(get());
+  },
+
+  addEnvironment: (name) => {
+    const environment: Environment = { id: nanoid(), name, variables: {} };
+
+    set((state) => {
+      debouncedSave();
+      return { environments: [...state.environments, environment] };
+    });
+
+    return environment.id;
+  },
+
+  renameEnvironment: (id, name) => {
+    set((state) => {
+      const newEnvironments = state.environments.map((env) =>
+        env.id === id ? { ...env, name } : env
+      );
+      debouncedSave();
+      return { environments: newEnvironments };
+    });
+  },
+
+  removeEnvironment: (id) => {
+    set((state) => {
+      const newEnvironments = state.environments.filter((env) => env.id !== id);
+      debouncedSave();
+      return {
+        environments: newEnvironments,
+        activeEnvironmentId: state.activeEnvironmentId === id ? null : state.activeEnvironmentId,
+      };
+    });
+  },
+
+  setActiveEnvironment: (id) => {
+    set({ activeEnvironmentId: id });
+    debouncedSave();
+  },
+
+  setScopeVariables: (scopeId, variables) => {
+    set((state) => {
+      if (scopeId === null) {
+        debouncedSave();
+        return { variables };
+      }
+
+      const newEnvironments = state.environments.map((env) =>
+        env.id === scopeId ? { ...env, variables } : env
+      );
+      debouncedSave();
+      return { environments: newEnvironments };
+    });
+  },
+
+  setVcr: (settings) => {
+    set((state) => ({ vcr: { ...state.vcr, ...settings } }));
+    debouncedSave();
+  },
+
+  createCassette: async (name) => {
+    const cassette = createCassette(name);
+    await saveCassette(cassette);
+    set((state) => ({ cassettes: sortCassettes([...state.cassettes, cassette]) }));
+    return cassette.id;
+  },
+
+  updateCassette: async (id, changes) => {
+    const cassette = get().cassettes.find((stored) => stored.id === id);
+    if (!cassette) return;
+
+    const updated = { ...cassette, ...changes, updatedAt: Date.now() };
+    set((state) => ({
+      cassettes: sortCassettes(state.cassettes.map((stored) => (stored.id === id ? updated : stored))),
+    }));
+    await saveCassette(updated);
+  },
+
+  deleteCassette: async (id) => {
+    await deleteStoredCassette(id);
+    set((state) => ({
+      cassettes: state.cassettes.filter((stored) => stored.id !== id),
+      // Recording or replaying without a cassette would fail every send
+      vcr: state.vcr.cassetteId === id ? { mode: 'off', cassetteId: null } : state.vcr,
+    }));
+    debouncedSave();
+  },
+
+  exportCassette: (id) => {
+    const cassette = get().cassettes.find((stored) => stored.id === id);
+    if (!cassette) throw new Error('Cassette not found');
+    return serializeCassette(cassette);
+  },
+
+  importCassette: async (content) => {
+    const cassette = parseCassetteFile(content);
+    await saveCassette(cassette);
+    set((state) => ({ cassettes: sortCassettes([...state.cassettes, cassette]) }));
+    return cassette.name;
+  },
+
   resetToDefault: () => {
-    const newState = createDefaultState();
+    recordWorkspaceUndo();
+    const { workspaceId, workspaces, cassettes } = get();
+    const newState = { ...createDefaultState(), workspaceId, workspaces, cassettes };
     set(newState);
     // Save the default state to IndexedDB
     debouncedSave();
   },
 
+  undo: () => {
+    // The redo step keeps the same parts as the step being undone
+    const snapshot = undoHistory.undo(takeSnapshot(partsOf(undoHistory.peekUndo())));
+    if (snapshot) restoreSnapshot(snapshot);
+  },
+
+  redo: () => {
+    const snapshot = undoHistory.redo(takeSnapshot(partsOf(undoHistory.peekRedo())));
+    if (snapshot) restoreSnapshot(snapshot);
+  },
+
+  createWorkspace: async (name) => {
+    await flushPendingSave();
+
+    const workspace: WorkspaceSummary = { id: nanoid(), name, updatedAt: Date.now() };
+    undoHistory.clear();
+    set((state) => ({
+      ...createDefaultState(),
+      workspaceId: workspace.id,
+      workspaces: sortWorkspaces([...state.workspaces, workspace]),
+      cassettes: state.cassettes,
+      canUndo: false,
+      canRedo: false,
+    }));
+
+    await saveActiveWorkspace();
+    await setLastWorkspaceId(workspace.id);
+  },
+
+  switchWorkspace: async (id) => {
+    if (id === get().workspaceId) return;
+
+    await flushPendingSave();
+    await openWorkspace(id);
+  },
+
+  renameWorkspace: async (id, name) => {
+    set((state) => ({
+      workspaces: sortWorkspaces(state.workspaces.map((workspace) =>
+        workspace.id === id ? { ...workspace, name } : workspace
+      )),
+    }));
+
+    if (id === get().workspaceId) {
+      debouncedSave();
+      return;
+    }
+
+    const record = await loadWorkspace(id);
+    if (record) {
+      await saveWorkspace({ ...record, name, state: migrateState(record.state) });
+    }
+  },
+
+  duplicateWorkspace: async (id) => {
+    await flushPendingSave();
+
+    const record = await loadWorkspace(id);
+    if (!record) throw new Error('Workspace not found');
+
+    const copy: WorkspaceSummary = { id: nanoid(), name: `${record.name} copy`, updatedAt: Date.now() };
+    await saveWorkspace({ ...copy, state: migrateState(record.state) });
+
+    set((state) => ({ workspaces: sortWorkspaces([...state.workspaces, copy]) }));
+    await openWorkspace(copy.id);
+  },
+
+  deleteWorkspace: async (id) => {
+    const { workspaces, workspaceId } = get();
+    if (workspaces.length <= 1) {
+      throw new Error('Cannot delete the last workspace');
+    }
+
+    // The active workspace's pending changes would otherwise recreate it
+    if (id === workspaceId) cancelPendingSave();
+
+    await deleteStoredWorkspace(id);
+    const remaining = workspaces.filter((workspace) => workspace.id !== id);
+    set({ workspaces: remaining });
+
+    if (id === workspaceId) {
+      await openWorkspace(remaining[0].id);
+    }
+  },
+
   importFromOpenAPI: (jsonString: string) => {
     const spec = parseOpenAPIJson(jsonString);
 
@@ -513,11 +1433,100 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
       throw new Error('Invalid OpenAPI specification');
     }
 
-    const result = importOpenAPI(spec);
+    const result = importOpenAPI(spec, nanoid());
+
+    recordImportUndo(Object.keys(result.variables || {}));
+    set((state) => {
+      // Replaces the canvas; merging into it goes through previewOpenAPIMerge/applyImportMerge
+      const newState = {
+        nodes: result.nodes,
+        edges: result.edges,
+        activePathId: null,
+        activePathNodes: [],
+        // Earlier specs stay while undo can bring back blocks linking to them; saving drops unlinked ones
+        specs: [...state.specs, result.spec],
+        // Server variable defaults don't overwrite values already set
+        variables: { ...result.variables, ...state.variables },
+      };
+      debouncedSave();
+      return newState;
+    });
+
+    return result;
+  },
+
+  previewOpenAPIMerge: (jsonString: string) => {
+    const spec = parseOpenAPIJson(jsonString);
+
+    if (!validateOpenAPISpec(spec)) {
+      throw new Error('Invalid OpenAPI specification');
+    }
+
+    const specId = nanoid();
+    const { baseUrl, servers, variables: serverVariables, endpoints, document } = extractEndpoints(spec, specId);
+    const state = get();
+    // Server variables not set yet resolve to their defaults, as they will after the merge
+    const variables = { ...serverVariables, ...getScopedVariables(state) };
+
+    return {
+      ...mergeEndpoints(state.nodes, state.edges, baseUrl, endpoints, (value) => interpolate(value, variables), serverBlockData(servers)),
+      variables: serverVariables,
+      spec: createImportedSpec(specId, document),
+    };
+  },
+
+  applyImportMerge: (plan) => {
+    recordImportUndo(Object.keys(plan.variables || {}));
+    set((state) => {
+      const newState = {
+        nodes: plan.nodes,
+        edges: plan.edges,
+        variables: { ...plan.variables, ...state.variables },
+        specs: plan.spec ? [...state.specs, plan.spec] : state.specs,
+        // Merging keeps every existing block, so the active path stays valid
+        activePathNodes: state.activePathId ? computeActivePathNodes(state.activePathId, plan.nodes, plan.edges) : [],
+      };
+      debouncedSave();
+      return newState;
+    });
+  },
+
+  importFromPostman: (jsonString: string) => {
+    const collection = parseOpenAPIJson(jsonString);
+
+    if (!validatePostmanCollection(collection)) {
+      throw new Error('Invalid Postman collection');
+    }
+
+    const result = importPostman(collection);
+
+    recordImportUndo(Object.keys(result.variables || {}));
+    set((state) => {
+      const newState = {
+        nodes: result.nodes,
+        edges: result.edges,
+        activePathId: null,
+        activePathNodes: [],
+        variables: { ...state.variables, ...result.variables },
+      };
+      debouncedSave();
+      return newState;
+    });
+
+    return result;
+  },
+
+  importFromHar: (jsonString: string) => {
+    const har = parseOpenAPIJson(jsonString);
+
+    if (!validateHar(har)) {
+      throw new Error('Invalid HAR file');
+    }
+
+    const result = importHar(har);
 
+    recordUndo();
     set(() => {
-      // Merge imported nodes/edges with existing ones, or replace entirely
-      // For now, we replace entirely for a clean import
       const newState = {
         nodes: result.nodes,
         edges: result.edges,
@@ -530,6 +1539,83 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
 
     return result;
   },
+
+  exportWorkspace: () => {
+    const state = get();
+    return serializeWorkspace({ ...state, specs: linkedSpecs(state.specs, state.nodes) });
+  },
+
+  importWorkspace: (content: string) => {
+    const workspace = parseWorkspaceFile(content);
+
+    recordWorkspaceUndo();
+    set((state) => {
+      const newState = {
+        ...workspace,
+        activePathId: null,
+        activePathNodes: [],
+        // Drop the active environment if the file doesn't have it
+        activeEnvironmentId: workspace.environments.some((env) => env.id === state.activeEnvironmentId)
+          ? state.activeEnvironmentId
+          : null,
+        flowRun: null,
+        testResults: {},
+        runReport: null,
+      };
+      debouncedSave();
+      return newState;
+    });
+  },
+
+  importFromCurl: (command: string) => {
+    const parsed = parseCurl(command);
+    const state = get();
+    const variables = getScopedVariables(state);
+
+    const result = attachEndpoint(
+      state.nodes,
+      state.edges,
+      parsed.baseUrl,
+      {
+        path: parsed.path,
+        method: parsed.method,
+        queryParams: parsed.queryParams,
+        data: {
+          headers: parsed.headers.length > 0 ? parsed.headers : undefined,
+          ...parsed.body,
+          bearerToken: parsed.bearerToken,
+        },
+      },
+      (value) => interpolate(value, variables)
+    );
+
+    recordUndo();
+    set((state) => {
+      const newState = {
+        nodes: [...state.nodes, ...result.nodes],
+        edges: [...state.edges, ...result.edges],
+      };
+      debouncedSave();
+      return newState;
+    });
+
+    get().setActivePath(result.methodId);
+    return result.methodId;
+  },
+
+  exportToOpenAPI: (version, format) => {
+    const { nodes, edges } = get();
+
+    // Every method block contributes the chain from its base URL
+    const chains = nodes
+      .filter((node) => node.data.type === 'method')
+      .sort((a, b) => a.position.y - b.position.y)
+      .map((node) => getPathBlocks(node.id, nodes, edges))
+      .filter((chain) => chain.length > 0);
+
+    const document = exportOpenAPI(chains, { version, variables: getScopedVariables(get()) });
+    return serializeSpec(document, format);
+  },
 }));
 
 /**
@@ -537,9 +1623,28 @@ export const useCanvasStore = create<CanvasStore>((set, get) => ({
  * Call this once when the app initializes
  */
 export async function hydrateStore() {
-  const savedState = await loadState();
-  if (savedState) {
-    useCanvasStore.setState(savedState);
+  useCanvasStore.setState({ cassettes: await listCassettes() });
+
+  const workspaces = await listWorkspaces();
+  const lastWorkspaceId = await getLastWorkspaceId();
+  const workspaceId = workspaces.find((workspace) => workspace.id === lastWorkspaceId)?.id ?? workspaces[0]?.id;
+
+  if (workspaceId) {
+    useCanvasStore.setState({ workspaces });
+    try {
+      await openWorkspace(workspaceId);
+      return;
+    } catch (error) {
+      console.error('Failed to open the last workspace, starting a new one:', error);
+    }
   }
-}
 
+  // First start (or unreadable workspace): the default canvas becomes a new workspace
+  const workspace: WorkspaceSummary = { id: nanoid(), name: 'My Workspace', updatedAt: Date.now() };
+  useCanvasStore.setState((state) => ({
+    workspaceId: workspace.id,
+    workspaces: sortWorkspaces([...state.workspaces, workspace]),
+  }));
+  await saveActiveWorkspace();
+  await setLastWorkspaceId(workspace.id);
+}
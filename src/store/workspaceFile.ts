@@ -0,0 +1,62 @@
+import { CURRENT_SCHEMA_VERSION, migrateState, type PersistedState } from './migrations';
+
+export const WORKSPACE_FILE_FORMAT = 'tldfetch-workspace';
+export const WORKSPACE_FILE_EXTENSION = '.tldfetch.json';
+
+// What a .tldfetch.json file holds: the canvas and its variables, not request history
+export type WorkspaceContents = Pick<PersistedState, 'nodes' | 'edges' | 'variables' | 'environments' | 'bodyHistory' | 'specs'>;
+
+interface WorkspaceFile {
+  format: typeof WORKSPACE_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  workspace: WorkspaceContents;
+}
+
+// Serialize the canvas as a .tldfetch.json file
+export function serializeWorkspace(contents: WorkspaceContents): string {
+  const file: WorkspaceFile = {
+    format: WORKSPACE_FILE_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    workspace: {
+      nodes: contents.nodes,
+      edges: contents.edges,
+      variables: contents.variables,
+      environments: contents.environments,
+      bodyHistory: contents.bodyHistory,
+      specs: contents.specs,
+    },
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function isWorkspaceFile(parsed: unknown): boolean {
+  return !!parsed && typeof parsed === 'object' && (parsed as Record<string, unknown>).format === WORKSPACE_FILE_FORMAT;
+}
+
+// Parse a .tldfetch.json file, upgrading files written by older versions
+export function parseWorkspaceFile(content: string): WorkspaceContents {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error('Workspace file is not valid JSON');
+  }
+
+  if (!isWorkspaceFile(parsed)) {
+    throw new Error('Not a TLDFetch workspace file');
+  }
+
+  const file = parsed as WorkspaceFile;
+  const migrated = migrateState({ ...file.workspace, schemaVersion: file.schemaVersion });
+
+  return {
+    nodes: migrated.nodes,
+    edges: migrated.edges,
+    variables: migrated.variables,
+    environments: migrated.environments,
+    bodyHistory: migrated.bodyHistory,
+    specs: migrated.specs,
+  };
+}
@@ -1,17 +1,162 @@
 import { type Node, type Edge } from 'reactflow';
 
-export type BlockType = 'baseUrl' | 'resource' | 'method' | 'request';
+export type BlockType = 'baseUrl' | 'resource' | 'query' | 'method' | 'request';
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
+// JSON type of a body field; objects and arrays hold their entries in `children`
+export type BodyFieldType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
 export interface BodyField {
+  key: string;
+  // Text of a scalar value, converted to `type` when the request is built
+  value: string;
+  // Missing on fields saved before typed bodies, which are strings
+  type?: BodyFieldType;
+  // Entries of object/array fields (keys of array items are ignored)
+  children?: BodyField[];
+}
+
+// How a method block's body is encoded; each type sends its own Content-Type
+export type BodyType = 'json' | 'form' | 'multipart' | 'xml' | 'text';
+
+// A file picked for a multipart field; its contents are kept in IndexedDB under `id`
+export interface StoredFileInfo {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+// A urlencoded or multipart form field
+export interface FormField {
   key: string;
   value: string;
+  // Multipart only: send a file instead of the value (`file` is missing until one is picked)
+  isFile?: boolean;
+  file?: StoredFileInfo;
 }
 
 export interface HeaderField {
   key: string;
   value: string;
+  // Declared required by an imported spec: sending is blocked while the value is empty
+  required?: boolean;
+}
+
+export interface QueryParam {
+  key: string;
+  value: string;
+  enabled: boolean;
+  // Declared required by an imported spec: sending is blocked while disabled or empty
+  required?: boolean;
+}
+
+// A server variable of an imported spec; its value lives in the variable of the same name
+export interface ServerVariable {
+  default: string;
+  // Allowed values, offered as a list on the base URL block
+  enum?: string[];
+  description?: string;
+}
+
+// One of the servers an imported spec lists
+export interface ServerOption {
+  // Server variables appear as {{name}} placeholders
+  url: string;
+  description?: string;
+  variables?: Record<string, ServerVariable>;
+}
+
+// Mock mode of a base URL block: requests under it are answered from the imported spec, offline
+export interface MockSettings {
+  enabled: boolean;
+  // Delay before each answer, in ms
+  latency?: number;
+  // Share of requests answered with an error, in percent (0-100)
+  errorRate?: number;
+}
+
+// What an imported spec declares about a path parameter
+export interface PathParamInfo {
+  // Schema type, e.g. integer or string
+  type?: string;
+  required?: boolean;
+  description?: string;
+}
+
+// How repeated query keys are serialized:
+// repeat → a=1&a=2, comma → a=1,2, brackets → a[]=1&a[]=2
+export type QueryArrayStyle = 'repeat' | 'comma' | 'brackets';
+
+// Where a capture rule reads its value from after a response arrives
+export type CaptureSource = 'body' | 'header' | 'status';
+
+export interface CaptureRule {
+  id: string;
+  variable: string;
+  source: CaptureSource;
+  // JSONPath for body captures, header name for header captures
+  path: string;
+  lastValue?: string;
+  updatedAt?: number;
+}
+
+// What an assertion checks; `target` is a header name or JSONPath where relevant
+export type AssertionType = 'status' | 'statusRange' | 'responseTime' | 'header' | 'jsonPath' | 'arrayLength';
+
+export type AssertionOperator = 'exists' | 'equals' | 'contains' | 'matches';
+
+export interface Assertion {
+  id: string;
+  type: AssertionType;
+  target?: string;
+  operator?: AssertionOperator;
+  // e.g. "200", "200-299", "500" (ms), a header value, a JSON value or a regex
+  expected: string;
+}
+
+export interface AssertionResult {
+  assertionId: string;
+  description: string;
+  passed: boolean;
+  // Actual value found, or why the check could not run
+  message: string;
+}
+
+// An OpenAPI spec imported into the workspace, kept to check responses against
+export interface ImportedSpec {
+  id: string;
+  title: string;
+  // The spec as OpenAPI 3.x (Swagger 2.0 specs are stored converted)
+  document: unknown;
+  importedAt: number;
+}
+
+// The spec operation a method block was imported from
+export interface SpecOperationRef {
+  specId: string;
+  // The path as the spec writes it, e.g. /users/{id}
+  path: string;
+  method: HttpMethod;
+}
+
+// What a contract check found wrong with a response
+export type ContractIssueKind = 'status' | 'contentType' | 'required' | 'type' | 'enum' | 'extra';
+
+export interface ContractIssue {
+  kind: ContractIssueKind;
+  // JSONPath of the offending value, e.g. $.items[0].id ($ for the whole response)
+  path: string;
+  message: string;
+}
+
+export interface ContractResult {
+  // e.g. "GET /users/{id}"
+  operation: string;
+  // The response the spec declares that the response was checked against (e.g. 200, 2XX, default)
+  matchedStatus?: string;
+  issues: ContractIssue[];
 }
 
 export interface BlockData {
@@ -19,10 +164,36 @@ export interface BlockData {
   value: string;
   method?: HttpMethod;
   isParam?: boolean;
+  // Group name shown on base URL blocks (e.g. the Postman folder they were imported from)
+  label?: string;
+  // Base URL blocks: the servers of an imported spec to switch `value` between
+  servers?: ServerOption[];
+  // Base URL blocks: answer requests from the imported spec instead of the network
+  mock?: MockSettings;
   paramValue?: string;
+  // Resource blocks: spec info for each {name} path parameter of the value
+  pathParams?: Record<string, PathParamInfo>;
+  // Missing on blocks saved before body types, which are JSON
+  bodyType?: BodyType;
   bodyFields?: BodyField[];
+  // Fields of form and multipart bodies
+  formFields?: FormField[];
+  // Text of XML and plain-text bodies
+  rawBody?: string;
   headers?: HeaderField[];
   bearerToken?: string;
+  queryParams?: QueryParam[];
+  arrayStyle?: QueryArrayStyle;
+  captures?: CaptureRule[];
+  assertions?: Assertion[];
+  // Used to pick method blocks for collection runs
+  tags?: string[];
+  // Flow head option: stop the flow at the first failing step
+  stopOnFailure?: boolean;
+  // Set by a spec re-import on method blocks whose endpoint the spec no longer has
+  removedFromSpec?: boolean;
+  // Method blocks imported from a spec: the operation their responses are checked against
+  operation?: SpecOperationRef;
 }
 
 export type ApiBlock = Node<BlockData>;
@@ -41,6 +212,14 @@ export interface ResponseState {
   headers: Record<string, string>;
   time: number;
   size: number;
+  // Results of the method block's assertions, when it has any
+  assertionResults?: AssertionResult[];
+  // Check against the imported spec, when the method block came from one
+  contractResult?: ContractResult;
+  // Answered by mock mode rather than the server
+  mocked?: boolean;
+  // Played back from a cassette rather than sent: which one, and when it was recorded
+  replayed?: { cassette: string; recordedAt: number };
 }
 
 export interface HistoryItem extends ResponseState {
@@ -48,6 +227,8 @@ export interface HistoryItem extends ResponseState {
   url: string;
   method: HttpMethod;
   timestamp: number;
+  // The request as sent (missing on items saved before it was recorded)
+  request?: RequestState;
 }
 
 export interface RequestBodyHistoryItem {
@@ -58,7 +239,99 @@ export interface RequestBodyHistoryItem {
   timestamp: number;
 }
 
+// How recorded requests are matched to new ones; method and URL always count
+export interface CassetteMatchRules {
+  // Compare request headers, except the ones listed (names are case-insensitive)
+  matchHeaders: boolean;
+  ignoreHeaders: string[];
+  // Compare request bodies; JSON keys listed are left out at any depth (e.g. timestamps)
+  matchBody: boolean;
+  ignoreBodyKeys: string[];
+  // Query parameters left out of the URL, e.g. a cache buster
+  ignoreQueryParams: string[];
+}
+
+export interface CassetteEntry {
+  id: string;
+  // The request as sent, body serialized
+  request: RequestState;
+  response: ResponseState;
+  recordedAt: number;
+}
+
+// Recorded responses to replay without the network; cassettes are shared by every workspace
+export interface Cassette {
+  id: string;
+  name: string;
+  rules: CassetteMatchRules;
+  entries: CassetteEntry[];
+  updatedAt: number;
+}
+
+// off: requests go out as usual; record: responses are also written to the cassette;
+// replay: responses come from the cassette and nothing is sent
+export type VcrMode = 'off' | 'record' | 'replay';
+
+export interface VcrSettings {
+  mode: VcrMode;
+  cassetteId: string | null;
+}
+
+// A saved workspace as listed in the switcher
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+export interface Environment {
+  id: string;
+  name: string;
+  variables: Record<string, string>;
+}
+
+export type FlowStepStatus = 'pending' | 'running' | 'success' | 'failed' | 'skipped';
+
+export interface FlowRunState {
+  id: string;
+  startNodeId: string;
+  running: boolean;
+  // Ordered method block ids of the flow
+  sequence: string[];
+  steps: Record<string, FlowStepStatus>;
+  errors: Record<string, string>;
+}
+
+// Which method blocks a collection run covers
+export type RunScope = 'all' | 'selected' | 'tag';
+
+export interface RunResultItem {
+  nodeId: string;
+  method: HttpMethod;
+  url: string;
+  status: number;
+  statusText: string;
+  time: number;
+  passed: boolean;
+  assertionResults?: AssertionResult[];
+  // Set when the request could not be sent at all
+  error?: string;
+}
+
+export interface RunReport {
+  id: string;
+  startedAt: number;
+  finishedAt?: number;
+  running: boolean;
+  // Number of method blocks the run covers
+  total: number;
+  results: RunResultItem[];
+}
+
 export interface CanvasState {
+  // Workspace the canvas belongs to, and every saved workspace (not part of the saved state)
+  workspaceId: string;
+  workspaces: WorkspaceSummary[];
   nodes: ApiBlock[];
   edges: Edge[];
   activePathId: string | null;
@@ -67,5 +340,17 @@ export interface CanvasState {
   response: ResponseState | null;
   history: HistoryItem[];
   bodyHistory: RequestBodyHistoryItem[];
+  // Imported OpenAPI specs that method blocks link to
+  specs: ImportedSpec[];
+  // Record/replay mode of this workspace, and every stored cassette (kept apart from workspaces)
+  vcr: VcrSettings;
+  cassettes: Cassette[];
+  // Global scope, shared by every environment
   variables: Record<string, string>;
+  environments: Environment[];
+  activeEnvironmentId: string | null;
+  flowRun: FlowRunState | null;
+  // Latest assertion results per method block (not persisted)
+  testResults: Record<string, AssertionResult[]>;
+  runReport: RunReport | null;
 }
@@ -0,0 +1,152 @@
+import type { Assertion, AssertionResult, ResponseState } from '../types';
+import { evaluateJsonPath } from './jsonPath';
+import { getResponseHeader } from './captures';
+
+/**
+ * Human-readable summary of an assertion, e.g. "status in 200-299"
+ */
+export function describeAssertion(assertion: Assertion): string {
+    const operator = assertion.operator || 'equals';
+
+    switch (assertion.type) {
+        case 'status':
+            return `status = ${assertion.expected}`;
+        case 'statusRange':
+            return `status in ${assertion.expected}`;
+        case 'responseTime':
+            return `time < ${assertion.expected}ms`;
+        case 'header':
+            return operator === 'exists'
+                ? `header ${assertion.target} exists`
+                : `header ${assertion.target} ${operator} ${assertion.expected}`;
+        case 'jsonPath':
+            return operator === 'exists'
+                ? `${assertion.target} exists`
+                : `${assertion.target} ${operator} ${assertion.expected}`;
+        case 'arrayLength':
+            return `${assertion.target} length = ${assertion.expected}`;
+    }
+}
+
+function formatActual(value: unknown): string {
+    if (value === undefined) return 'undefined';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Parse the expected value as JSON when possible, so "1" matches 1 and "true" matches true
+ */
+function parseExpected(expected: string): unknown {
+    try {
+        return JSON.parse(expected);
+    } catch {
+        return expected;
+    }
+}
+
+function compare(actual: unknown, operator: Assertion['operator'], expected: string): boolean {
+    switch (operator) {
+        case 'exists':
+            return actual !== undefined;
+        case 'contains':
+            if (Array.isArray(actual)) {
+                const expectedValue = parseExpected(expected);
+                return actual.some((item) => JSON.stringify(item) === JSON.stringify(expectedValue) || formatActual(item) === expected);
+            }
+            return formatActual(actual).includes(expected);
+        case 'matches':
+            return new RegExp(expected).test(formatActual(actual));
+        case 'equals':
+        default:
+            return JSON.stringify(actual) === JSON.stringify(parseExpected(expected)) || formatActual(actual) === expected;
+    }
+}
+
+/**
+ * Parse "200-299" (or "2xx") into an inclusive range
+ */
+function parseStatusRange(expected: string): [number, number] | null {
+    const classMatch = expected.trim().match(/^([1-5])xx$/i);
+    if (classMatch) {
+        const base = Number(classMatch[1]) * 100;
+        return [base, base + 99];
+    }
+
+    const rangeMatch = expected.trim().match(/^(\d{3})\s*-\s*(\d{3})$/);
+    if (rangeMatch) {
+        return [Number(rangeMatch[1]), Number(rangeMatch[2])];
+    }
+
+    return null;
+}
+
+function evaluateAssertion(assertion: Assertion, response: ResponseState): Omit<AssertionResult, 'assertionId' | 'description'> {
+    switch (assertion.type) {
+        case 'status':
+            return {
+                passed: response.status === Number(assertion.expected),
+                message: `got ${response.status}`,
+            };
+
+        case 'statusRange': {
+            const range = parseStatusRange(assertion.expected);
+            if (!range) return { passed: false, message: `invalid range "${assertion.expected}"` };
+            return {
+                passed: response.status >= range[0] && response.status <= range[1],
+                message: `got ${response.status}`,
+            };
+        }
+
+        case 'responseTime':
+            return {
+                passed: response.time < Number(assertion.expected),
+                message: `took ${response.time}ms`,
+            };
+
+        case 'header': {
+            const value = getResponseHeader(response, assertion.target || '');
+            return {
+                passed: compare(value, assertion.operator || 'exists', assertion.expected),
+                message: value === undefined ? 'header missing' : `got ${value}`,
+            };
+        }
+
+        case 'jsonPath': {
+            const value = evaluateJsonPath(response.data, assertion.target || '$');
+            return {
+                passed: compare(value, assertion.operator || 'equals', assertion.expected),
+                message: `got ${formatActual(value)}`,
+            };
+        }
+
+        case 'arrayLength': {
+            const value = evaluateJsonPath(response.data, assertion.target || '$');
+            if (!Array.isArray(value)) return { passed: false, message: 'not an array' };
+            return {
+                passed: value.length === Number(assertion.expected),
+                message: `length ${value.length}`,
+            };
+        }
+    }
+}
+
+/**
+ * Evaluate a method block's assertions against a response
+ * Invalid JSONPaths or regexes fail the assertion instead of throwing
+ */
+export function evaluateAssertions(assertions: Assertion[], response: ResponseState): AssertionResult[] {
+    return assertions.map((assertion) => {
+        const description = describeAssertion(assertion);
+
+        try {
+            return { assertionId: assertion.id, description, ...evaluateAssertion(assertion, response) };
+        } catch (error) {
+            return {
+                assertionId: assertion.id,
+                description,
+                passed: false,
+                message: error instanceof Error ? error.message : 'Assertion failed to run',
+            };
+        }
+    });
+}
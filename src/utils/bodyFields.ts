@@ -0,0 +1,214 @@
+import type { BodyField, BodyFieldType } from '../types';
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+export type JsonObject = { [key: string]: JsonValue };
+
+export const BODY_FIELD_TYPES: BodyFieldType[] = ['string', 'number', 'boolean', 'null', 'object', 'array'];
+
+// Payload set by draggable response fields and read by the body editor on drop
+export interface BodyDragData {
+    // Leaf key and display value (all that older drags carried)
+    key: string;
+    value: string;
+    valueOnly: boolean;
+    // Full path in the response, e.g. user.addresses[0].city
+    path?: string;
+    // The original value as JSON, so the drop keeps its type
+    json?: string;
+}
+
+type PathSegment = string | number;
+
+const identity = (text: string) => text;
+
+/**
+ * Type of a field; fields saved before typed bodies are strings
+ */
+export function getFieldType(field: BodyField): BodyFieldType {
+    return field.type ?? 'string';
+}
+
+export function isContainerType(type: BodyFieldType): boolean {
+    return type === 'object' || type === 'array';
+}
+
+/**
+ * Convert a scalar field's text to its typed value
+ * Numbers and booleans that don't parse (e.g. an unresolved {{id}}) are sent as the text itself
+ */
+function toScalar(type: BodyFieldType, text: string): JsonValue {
+    switch (type) {
+        case 'number': {
+            const number = Number(text);
+            return text.trim() !== '' && Number.isFinite(number) ? number : text;
+        }
+        case 'boolean':
+            return text === 'true' ? true : text === 'false' ? false : text;
+        case 'null':
+            return null;
+        default:
+            return text;
+    }
+}
+
+/**
+ * Build the JSON value of a field, running every key and scalar text through resolve
+ */
+export function fieldToJson(field: BodyField, resolve: (text: string) => string = identity): JsonValue {
+    const type = getFieldType(field);
+    if (type === 'object') return fieldsToJson(field.children || [], resolve);
+    if (type === 'array') return (field.children || []).map((child) => fieldToJson(child, resolve));
+    return toScalar(type, resolve(field.value));
+}
+
+/**
+ * Build the JSON object for a list of fields; fields without a key are skipped
+ */
+export function fieldsToJson(fields: BodyField[], resolve: (text: string) => string = identity): JsonObject {
+    const result: JsonObject = {};
+    for (const field of fields) {
+        if (field.key) result[resolve(field.key)] = fieldToJson(field, resolve);
+    }
+    return result;
+}
+
+/**
+ * Turn any JSON value into a typed field (array items get an empty key)
+ */
+export function jsonToField(key: string, value: unknown): BodyField {
+    if (Array.isArray(value)) {
+        return { key, value: '', type: 'array', children: value.map((item) => jsonToField('', item)) };
+    }
+    if (value !== null && typeof value === 'object') {
+        return { key, value: '', type: 'object', children: jsonToFields(value as Record<string, unknown>) };
+    }
+    if (value === null || value === undefined) return { key, value: '', type: 'null' };
+    if (typeof value === 'number') return { key, value: String(value), type: 'number' };
+    if (typeof value === 'boolean') return { key, value: String(value), type: 'boolean' };
+    return { key, value: String(value), type: 'string' };
+}
+
+export function jsonToFields(object: Record<string, unknown>): BodyField[] {
+    return Object.entries(object).map(([key, value]) => jsonToField(key, value));
+}
+
+/**
+ * Parse the raw JSON editor's text into fields
+ */
+export function parseRawBody(text: string): BodyField[] {
+    if (!text.trim()) return [];
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error) {
+        throw new Error(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('The body must be a JSON object');
+    }
+    return jsonToFields(parsed as Record<string, unknown>);
+}
+
+/**
+ * Pretty-print fields for the raw JSON editor
+ */
+export function formatRawBody(fields: BodyField[]): string {
+    return fields.length > 0 ? JSON.stringify(fieldsToJson(fields), null, 2) : '';
+}
+
+/**
+ * Every key and scalar text that fieldsToJson sends, e.g. to look for placeholders
+ */
+export function collectFieldText(fields: BodyField[], inArray = false): string[] {
+    return fields
+        .filter((field) => inArray || field.key)
+        .flatMap((field) => {
+            const type = getFieldType(field);
+            return [
+                field.key,
+                ...(isContainerType(type) ? collectFieldText(field.children || [], type === 'array') : [field.value]),
+            ];
+        });
+}
+
+/**
+ * Short display of a field's value: the text for scalars, the size for objects and arrays
+ */
+export function previewFieldValue(field: BodyField): string {
+    const type = getFieldType(field);
+    if (type === 'object') return `{${field.children?.length ?? 0}}`;
+    if (type === 'array') return `[${field.children?.length ?? 0}]`;
+    if (type === 'null') return 'null';
+    return field.value;
+}
+
+/**
+ * Describe a response value for dragging into a request body
+ */
+export function createBodyDragData(keyName: string, value: unknown, path: string, valueOnly: boolean): BodyDragData {
+    return {
+        key: keyName.includes('.') ? keyName.split('.').pop()! : keyName,
+        value: value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value),
+        valueOnly,
+        path,
+        json: value === undefined ? undefined : JSON.stringify(value),
+    };
+}
+
+/**
+ * The field a drop carries, typed from its JSON when the drag provided it
+ */
+export function dragDataToField(dragData: BodyDragData): BodyField {
+    if (dragData.json !== undefined) {
+        try {
+            return jsonToField(dragData.key, JSON.parse(dragData.json));
+        } catch {
+            // Fall through to the display value
+        }
+    }
+    return { key: dragData.key, value: dragData.value };
+}
+
+/**
+ * Split a response path ("a.b[0].c") into keys and array indexes
+ * Leading indexes of a top-level array response are dropped: the body is built from one item
+ */
+export function parseFieldPath(path: string): PathSegment[] {
+    const segments: PathSegment[] = [];
+    for (const match of path.matchAll(/\[(\d+)\]|[^.[\]]+/g)) {
+        segments.push(match[1] !== undefined ? Number(match[1]) : match[0]);
+    }
+
+    while (segments.length > 1 && /^\d+$/.test(String(segments[0]))) segments.shift();
+    return segments;
+}
+
+/**
+ * Put a field at a path, creating the objects and arrays along the way
+ * Existing fields on the path are kept; the leaf replaces any field already there
+ */
+export function setFieldAtPath(fields: BodyField[], path: PathSegment[], leaf: BodyField, inArray = false): BodyField[] {
+    const [segment, ...rest] = path;
+    if (segment === undefined) return fields;
+
+    const index = inArray
+        ? Math.min(Number(segment), fields.length)
+        : fields.findIndex((field) => field.key === segment);
+    const key = inArray ? '' : String(segment);
+
+    let next: BodyField;
+    if (rest.length === 0) {
+        next = { ...leaf, key };
+    } else {
+        const childrenInArray = typeof rest[0] === 'number';
+        const type: BodyFieldType = childrenInArray ? 'array' : 'object';
+        const existing = index >= 0 ? fields[index] : undefined;
+        const children = existing?.type === type ? existing.children || [] : [];
+        next = { key, value: '', type, children: setFieldAtPath(children, rest, leaf, childrenInArray) };
+    }
+
+    if (index < 0 || index >= fields.length) return [...fields, next];
+    return fields.map((field, i) => (i === index ? next : field));
+}
@@ -0,0 +1,37 @@
+import type { CaptureRule, ResponseState } from '../types';
+import { evaluateJsonPath } from './jsonPath';
+
+/**
+ * Look up a response header by name, ignoring case
+ */
+export function getResponseHeader(response: ResponseState, name: string): string | undefined {
+    const lowerName = name.toLowerCase();
+    const entry = Object.entries(response.headers).find(([key]) => key.toLowerCase() === lowerName);
+    return entry ? String(entry[1]) : undefined;
+}
+
+/**
+ * Extract the value a capture rule points at, stringified for use as a variable
+ * Returns undefined when the rule doesn't match anything in the response
+ */
+export function extractCaptureValue(rule: CaptureRule, response: ResponseState): string | undefined {
+    switch (rule.source) {
+        case 'status':
+            return String(response.status);
+
+        case 'header':
+            return getResponseHeader(response, rule.path);
+
+        case 'body': {
+            let value: unknown;
+            try {
+                value = evaluateJsonPath(response.data, rule.path);
+            } catch {
+                return undefined;
+            }
+
+            if (value === undefined) return undefined;
+            return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+        }
+    }
+}
@@ -0,0 +1,181 @@
+import { nanoid } from 'nanoid';
+import type { Cassette, CassetteEntry, CassetteMatchRules, RequestState, ResponseState } from '../types';
+
+export const CASSETTE_FILE_FORMAT = 'tldfetch-cassette';
+export const CASSETTE_FILE_EXTENSION = '.cassette.json';
+
+export const DEFAULT_MATCH_RULES: CassetteMatchRules = {
+    matchHeaders: false,
+    ignoreHeaders: [],
+    matchBody: true,
+    ignoreBodyKeys: [],
+    ignoreQueryParams: [],
+};
+
+interface CassetteFile {
+    format: typeof CASSETTE_FILE_FORMAT;
+    exportedAt: string;
+    cassette: Cassette;
+}
+
+/**
+ * JSON with object keys sorted, so equal values serialize the same
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, child]) => `${JSON.stringify(key)}:${stableStringify(child)}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Copy a JSON value without the listed keys, at any depth
+ */
+function withoutKeys(value: unknown, keys: string[]): unknown {
+    if (Array.isArray(value)) return value.map((item) => withoutKeys(item, keys));
+    if (!value || typeof value !== 'object') return value;
+
+    return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>)
+            .filter(([key]) => !keys.includes(key))
+            .map(([key, child]) => [key, withoutKeys(child, keys)])
+    );
+}
+
+/**
+ * The URL with ignored query parameters left out and the others sorted
+ */
+function normalizeUrl(url: string, ignoreQueryParams: string[]): string {
+    try {
+        const parsed = new URL(url);
+        const params = Array.from(parsed.searchParams.entries())
+            .filter(([key]) => !ignoreQueryParams.includes(key))
+            .sort(([a], [b]) => a.localeCompare(b));
+        const query = new URLSearchParams(params).toString();
+        return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}${query ? `?${query}` : ''}`;
+    } catch {
+        return url;
+    }
+}
+
+function normalizeHeaders(headers: Record<string, string>, ignoreHeaders: string[]): string {
+    const ignored = ignoreHeaders.map((name) => name.toLowerCase());
+    return Object.entries(headers)
+        .map(([key, value]): [string, string] => [key.toLowerCase(), value])
+        .filter(([key]) => !ignored.includes(key))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, value]) => `${key}:${value}`)
+        .join('\n');
+}
+
+/**
+ * JSON bodies compare by value (key order and ignored keys don't count); others by text
+ */
+function normalizeBody(body: string, ignoreBodyKeys: string[]): string {
+    try {
+        return stableStringify(withoutKeys(JSON.parse(body), ignoreBodyKeys));
+    } catch {
+        return body.trim();
+    }
+}
+
+/**
+ * What two requests must share to match under a cassette's rules
+ */
+export function matchKey(request: RequestState, rules: CassetteMatchRules): string {
+    return [
+        request.method,
+        normalizeUrl(request.url, rules.ignoreQueryParams),
+        rules.matchHeaders ? normalizeHeaders(request.headers, rules.ignoreHeaders) : '',
+        rules.matchBody ? normalizeBody(request.body, rules.ignoreBodyKeys) : '',
+    ].join('\n\n');
+}
+
+/**
+ * The most recent recording matching a request
+ */
+export function findCassetteEntry(cassette: Cassette, request: RequestState): CassetteEntry | undefined {
+    const key = matchKey(request, cassette.rules);
+    return cassette.entries
+        .filter((entry) => matchKey(entry.request, cassette.rules) === key)
+        .reduce<CassetteEntry | undefined>((latest, entry) => (!latest || entry.recordedAt > latest.recordedAt ? entry : latest), undefined);
+}
+
+/**
+ * Record a response; an earlier recording of a matching request is replaced
+ * Results of checks run on the response (assertions, contract) aren't kept, they run again on replay
+ */
+export function addCassetteEntry(cassette: Cassette, request: RequestState, response: ResponseState): Cassette {
+    const key = matchKey(request, cassette.rules);
+    const entry: CassetteEntry = {
+        id: nanoid(),
+        request,
+        response: {
+            status: response.status,
+            statusText: response.statusText,
+            data: response.data,
+            headers: { ...response.headers },
+            time: response.time,
+            size: response.size,
+        },
+        recordedAt: Date.now(),
+    };
+
+    return {
+        ...cassette,
+        entries: [...cassette.entries.filter((existing) => matchKey(existing.request, cassette.rules) !== key), entry],
+        updatedAt: entry.recordedAt,
+    };
+}
+
+/**
+ * The response a recording plays back, marked as a replay
+ */
+export function replayEntry(cassette: Cassette, entry: CassetteEntry): ResponseState {
+    return { ...entry.response, replayed: { cassette: cassette.name, recordedAt: entry.recordedAt } };
+}
+
+export function createCassette(name: string): Cassette {
+    return { id: nanoid(), name, rules: { ...DEFAULT_MATCH_RULES }, entries: [], updatedAt: Date.now() };
+}
+
+/**
+ * Serialize a cassette as a .cassette.json file
+ */
+export function serializeCassette(cassette: Cassette): string {
+    const file: CassetteFile = {
+        format: CASSETTE_FILE_FORMAT,
+        exportedAt: new Date().toISOString(),
+        cassette,
+    };
+    return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse a .cassette.json file into a new cassette (with its own id, so importing twice keeps both)
+ */
+export function parseCassetteFile(content: string): Cassette {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('Cassette file is not valid JSON');
+    }
+
+    const file = parsed as Partial<CassetteFile> | null;
+    if (!file || file.format !== CASSETTE_FILE_FORMAT || !file.cassette || !Array.isArray(file.cassette.entries)) {
+        throw new Error('Not a TLDFetch cassette file');
+    }
+
+    return {
+        ...file.cassette,
+        id: nanoid(),
+        name: file.cassette.name || 'Imported cassette',
+        rules: { ...DEFAULT_MATCH_RULES, ...file.cassette.rules },
+        updatedAt: Date.now(),
+    };
+}
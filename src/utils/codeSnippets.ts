@@ -0,0 +1,315 @@
+import type { FormField } from '../types';
+import { serializeBody, type BuiltRequest } from './requestBuilder';
+import { shellQuote, toCurl } from './curl';
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'node' | 'python' | 'go' | 'httpie';
+
+export const SNIPPET_LANGUAGES: Array<{ id: SnippetLanguage; label: string }> = [
+    { id: 'curl', label: 'cURL' },
+    { id: 'fetch', label: 'fetch' },
+    { id: 'axios', label: 'axios' },
+    { id: 'node', label: 'Node http' },
+    { id: 'python', label: 'Python requests' },
+    { id: 'go', label: 'Go net/http' },
+    { id: 'httpie', label: 'HTTPie' },
+];
+
+/**
+ * Pretty-print a value as JSON, indenting every line after the first
+ */
+function toJson(value: unknown, indent: string, step = 2): string {
+    return JSON.stringify(value, null, step).replace(/\n/g, '\n' + indent);
+}
+
+/**
+ * Headers as the snippet sets them
+ * Multipart bodies leave out Content-Type: every client adds its own boundary
+ */
+function snippetHeaders(request: BuiltRequest): Record<string, string> {
+    if (request.body?.type !== 'multipart') return request.headers;
+    return Object.fromEntries(
+        Object.entries(request.headers).filter(([key]) => key.toLowerCase() !== 'content-type')
+    );
+}
+
+function hasHeaders(request: BuiltRequest): boolean {
+    return Object.keys(snippetHeaders(request)).length > 0;
+}
+
+function fileName(field: FormField): string {
+    return field.file?.name ?? field.value;
+}
+
+/**
+ * JS lines building a FormData; file contents are left for the reader to fill in
+ */
+function toFormDataLines(fields: FormField[]): string[] {
+    return [
+        'const form = new FormData();',
+        ...fields.map((field) => field.isFile
+            ? `form.append(${JSON.stringify(field.key)}, new Blob([/* contents of ${fileName(field)} */]), ${JSON.stringify(fileName(field))});`
+            : `form.append(${JSON.stringify(field.key)}, ${JSON.stringify(field.value)});`),
+        '',
+    ];
+}
+
+function toFetch(request: BuiltRequest): string {
+    const { body } = request;
+    const setup = body?.type === 'multipart' ? toFormDataLines(body.fields) : [];
+    const options = [`  method: ${JSON.stringify(request.method)},`];
+    if (hasHeaders(request)) options.push(`  headers: ${toJson(snippetHeaders(request), '  ')},`);
+
+    if (body?.type === 'json') {
+        options.push(`  body: JSON.stringify(${toJson(body.data, '  ')}),`);
+    } else if (body?.type === 'multipart') {
+        options.push('  body: form,');
+    } else if (body) {
+        options.push(`  body: ${JSON.stringify(serializeBody(body))},`);
+    }
+
+    return [
+        ...setup,
+        `const response = await fetch(${JSON.stringify(request.url)}, {`,
+        ...options,
+        '});',
+        '',
+        'console.log(response.status, await response.text());',
+    ].join('\n');
+}
+
+function toAxios(request: BuiltRequest): string {
+    const { body } = request;
+    const setup = body?.type === 'multipart' ? toFormDataLines(body.fields) : [];
+    const options = [
+        `  method: ${JSON.stringify(request.method.toLowerCase())},`,
+        `  url: ${JSON.stringify(request.url)},`,
+    ];
+    if (hasHeaders(request)) options.push(`  headers: ${toJson(snippetHeaders(request), '  ')},`);
+
+    if (body?.type === 'json') {
+        options.push(`  data: ${toJson(body.data, '  ')},`);
+    } else if (body?.type === 'multipart') {
+        options.push('  data: form,');
+    } else if (body) {
+        options.push(`  data: ${JSON.stringify(serializeBody(body))},`);
+    }
+
+    return [
+        "import axios from 'axios';",
+        '',
+        ...setup,
+        'const response = await axios({',
+        ...options,
+        '});',
+        '',
+        'console.log(response.status, response.data);',
+    ].join('\n');
+}
+
+function toNodeHttp(request: BuiltRequest): string {
+    const { body } = request;
+    if (body?.type === 'multipart') {
+        return [
+            "// The http module has no multipart encoder; fetch and FormData are built into Node 18+",
+            toFetch(request),
+        ].join('\n');
+    }
+
+    const module = request.url.startsWith('https:') ? 'https' : 'http';
+    const lines = [`const ${module} = require('${module}');`, ''];
+
+    if (body?.type === 'json') {
+        lines.push(`const body = JSON.stringify(${toJson(body.data, '')});`, '');
+    } else if (body) {
+        lines.push(`const body = ${JSON.stringify(serializeBody(body))};`, '');
+    }
+
+    lines.push(
+        `const req = ${module}.request(${JSON.stringify(request.url)}, {`,
+        `  method: ${JSON.stringify(request.method)},`,
+        `  headers: ${toJson(request.headers, '  ')},`,
+        '}, (res) => {',
+        "  let data = '';",
+        "  res.on('data', (chunk) => { data += chunk; });",
+        "  res.on('end', () => console.log(res.statusCode, data));",
+        '});',
+        '',
+        "req.on('error', console.error);",
+    );
+
+    if (body) lines.push('req.write(body);');
+    lines.push('req.end();');
+
+    return lines.join('\n');
+}
+
+const PYTHON_KEYWORDS: Record<string, string> = { true: 'True', false: 'False', null: 'None' };
+
+/**
+ * Pretty-print a value as a Python literal: JSON with True/False/None outside of strings
+ */
+function toPythonLiteral(value: unknown, indent: string): string {
+    return toJson(value, indent, 4).replace(
+        /"(?:[^"\\]|\\.)*"|\b(true|false|null)\b/g,
+        (match, keyword?: string) => (keyword ? PYTHON_KEYWORDS[keyword] : match)
+    );
+}
+
+/**
+ * A Python list of tuples, one per line (keeps repeated keys, unlike a dict)
+ */
+function toPythonTuples(items: string[], indent: string): string {
+    return ['[', ...items.map((item) => `${indent}    ${item},`), `${indent}]`].join('\n');
+}
+
+function toPython(request: BuiltRequest): string {
+    const { body } = request;
+    const args = [`    ${JSON.stringify(request.url)},`];
+    if (hasHeaders(request)) args.push(`    headers=${toJson(snippetHeaders(request), '    ', 4)},`);
+
+    if (body?.type === 'json') {
+        args.push(`    json=${toPythonLiteral(body.data, '    ')},`);
+    } else if (body?.type === 'form') {
+        const pairs = body.fields.map(({ key, value }) => `(${JSON.stringify(key)}, ${JSON.stringify(value)})`);
+        args.push(`    data=${toPythonTuples(pairs, '    ')},`);
+    } else if (body?.type === 'multipart') {
+        // Text fields go in files too, as (None, value), so requests always sends multipart
+        const parts = body.fields.map((field) => field.isFile
+            ? `(${JSON.stringify(field.key)}, (${JSON.stringify(fileName(field))}, open(${JSON.stringify(fileName(field))}, "rb")))`
+            : `(${JSON.stringify(field.key)}, (None, ${JSON.stringify(field.value)}))`);
+        args.push(`    files=${toPythonTuples(parts, '    ')},`);
+    } else if (body) {
+        args.push(`    data=${JSON.stringify(body.text)},`);
+    }
+
+    return [
+        'import requests',
+        '',
+        `response = requests.${request.method.toLowerCase()}(`,
+        ...args,
+        ')',
+        '',
+        'print(response.status_code, response.text)',
+    ].join('\n');
+}
+
+/**
+ * A Go string literal: raw when possible, quoted when the text holds a backtick
+ */
+function toGoString(text: string): string {
+    return text.includes('`') ? JSON.stringify(text) : '`' + text + '`';
+}
+
+function toGo(request: BuiltRequest): string {
+    const { body } = request;
+    const imports = ['"fmt"', '"io"', '"net/http"'];
+    let bodyArg = 'nil';
+    const setup: string[] = [];
+
+    if (body?.type === 'multipart') {
+        imports.push('"bytes"', '"mime/multipart"');
+        setup.push('\tvar body bytes.Buffer', '\twriter := multipart.NewWriter(&body)');
+        // Files are read from disk; text-only forms don't need os
+        if (body.fields.some((field) => field.isFile)) {
+            imports.push('"os"');
+            setup.push('\tvar part io.Writer', '\tvar contents []byte');
+        }
+        for (const field of body.fields) {
+            if (field.isFile) {
+                setup.push(
+                    `\tpart, _ = writer.CreateFormFile(${JSON.stringify(field.key)}, ${JSON.stringify(fileName(field))})`,
+                    `\tcontents, _ = os.ReadFile(${JSON.stringify(fileName(field))})`,
+                    '\tpart.Write(contents)',
+                );
+            } else {
+                setup.push(`\twriter.WriteField(${JSON.stringify(field.key)}, ${JSON.stringify(field.value)})`);
+            }
+        }
+        setup.push('\twriter.Close()');
+        bodyArg = '&body';
+    } else if (body) {
+        imports.push('"strings"');
+        setup.push(`\tbody := strings.NewReader(${toGoString(serializeBody(body))})`);
+        bodyArg = 'body';
+    }
+
+    const headerLines = Object.entries(snippetHeaders(request))
+        .map(([key, value]) => `\treq.Header.Set(${JSON.stringify(key)}, ${JSON.stringify(value)})`);
+    if (body?.type === 'multipart') {
+        headerLines.push('\treq.Header.Set("Content-Type", writer.FormDataContentType())');
+    }
+
+    return [
+        'package main',
+        '',
+        'import (',
+        ...imports.sort().map((name) => `\t${name}`),
+        ')',
+        '',
+        'func main() {',
+        ...setup,
+        `\treq, err := http.NewRequest(${JSON.stringify(request.method)}, ${JSON.stringify(request.url)}, ${bodyArg})`,
+        '\tif err != nil {',
+        '\t\tpanic(err)',
+        '\t}',
+        ...headerLines,
+        '',
+        '\tres, err := http.DefaultClient.Do(req)',
+        '\tif err != nil {',
+        '\t\tpanic(err)',
+        '\t}',
+        '\tdefer res.Body.Close()',
+        '',
+        '\tdata, _ := io.ReadAll(res.Body)',
+        '\tfmt.Println(res.Status, string(data))',
+        '}',
+    ].join('\n');
+}
+
+function toHttpie(request: BuiltRequest): string {
+    const { body } = request;
+    const flags = body?.type === 'form' ? ' --form' : body?.type === 'multipart' ? ' --multipart' : '';
+    const items = [`http${flags} ${request.method} ${shellQuote(request.url)}`];
+
+    for (const [key, value] of Object.entries(snippetHeaders(request))) {
+        items.push(shellQuote(`${key}:${value}`));
+    }
+
+    if (body?.type === 'json') {
+        // key=value items are sent as JSON strings, key:=json items keep other types
+        for (const [key, value] of Object.entries(body.data)) {
+            items.push(shellQuote(typeof value === 'string' ? `${key}=${value}` : `${key}:=${JSON.stringify(value)}`));
+        }
+    } else if (body?.type === 'form' || body?.type === 'multipart') {
+        for (const field of body.fields) {
+            items.push(shellQuote('isFile' in field && field.isFile ? `${field.key}@${fileName(field)}` : `${field.key}=${field.value}`));
+        }
+    } else if (body) {
+        items.push(`--raw ${shellQuote(body.text)}`);
+    }
+
+    return items.join(' \\\n  ');
+}
+
+/**
+ * Render a built request as ready-to-paste code
+ * Snippets are generated from the same BuiltRequest that Send uses, so they match it exactly
+ */
+export function generateSnippet(language: SnippetLanguage, request: BuiltRequest): string {
+    switch (language) {
+        case 'curl':
+            return toCurl(request);
+        case 'fetch':
+            return toFetch(request);
+        case 'axios':
+            return toAxios(request);
+        case 'node':
+            return toNodeHttp(request);
+        case 'python':
+            return toPython(request);
+        case 'go':
+            return toGo(request);
+        case 'httpie':
+            return toHttpie(request);
+    }
+}
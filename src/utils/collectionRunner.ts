@@ -0,0 +1,69 @@
+import type { ApiBlock, RunScope } from '../types';
+
+export interface CollectionRunOptions {
+    scope: RunScope;
+    // Tag to run when scope is 'tag'
+    tag?: string;
+    concurrency: number;
+    // Pause before each request, per worker
+    delayMs: number;
+}
+
+/**
+ * Pick the method blocks a collection run covers, top-to-bottom then left-to-right
+ */
+export function selectMethodNodes(nodes: ApiBlock[], options: Pick<CollectionRunOptions, 'scope' | 'tag'>): ApiBlock[] {
+    return nodes
+        .filter((node) => node.data.type === 'method')
+        .filter((node) => {
+            if (options.scope === 'selected') return !!node.selected;
+            if (options.scope === 'tag') return !!options.tag && (node.data.tags || []).includes(options.tag);
+            return true;
+        })
+        .sort((a, b) => a.position.y - b.position.y || a.position.x - b.position.x);
+}
+
+/**
+ * Collect every tag used by method blocks, sorted
+ */
+export function collectTags(nodes: ApiBlock[]): string[] {
+    const tags = new Set<string>();
+    for (const node of nodes) {
+        if (node.data.type !== 'method') continue;
+        node.data.tags?.forEach((tag) => tags.add(tag));
+    }
+    return Array.from(tags).sort();
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a worker over items with bounded concurrency
+ * `shouldStop` is checked before each item; items not started are left out
+ */
+export async function runWithConcurrency<T>(
+    items: T[],
+    options: Pick<CollectionRunOptions, 'concurrency' | 'delayMs'>,
+    worker: (item: T) => Promise<void>,
+    shouldStop: () => boolean
+): Promise<void> {
+    let nextIndex = 0;
+
+    const runWorker = async () => {
+        while (nextIndex < items.length && !shouldStop()) {
+            const item = items[nextIndex++];
+
+            if (options.delayMs > 0) {
+                await sleep(options.delayMs);
+                if (shouldStop()) return;
+            }
+
+            await worker(item);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(options.concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, runWorker));
+}
@@ -0,0 +1,221 @@
+import type { ContractIssue, ContractResult, ResponseState, SpecOperationRef } from '../types';
+import { getResponseHeader } from './captures';
+import { dereferenceSchema, mergeSchemas, resolveRefs, type OpenAPISchema } from './openApiSchema';
+
+interface OpenAPIResponse {
+    description?: string;
+    // Keyed by media type, which may be a range such as application/* or */*
+    content?: Record<string, { schema?: OpenAPISchema }>;
+}
+
+type OpenAPIResponses = Record<string, OpenAPIResponse | { $ref: string }>;
+
+// A response this far off the spec is reported in part
+const MAX_ISSUES = 50;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * JSONPath of a property or item below `path`
+ */
+function childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return IDENTIFIER.test(key) ? `${path}.${key}` : `${path}['${key.replace(/'/g, "\\'")}']`;
+}
+
+/**
+ * JSON type name of a value, as schemas write it
+ */
+function jsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number';
+        case 'object':
+            return jsonType(value) === 'object';
+        default:
+            return jsonType(value) === type;
+    }
+}
+
+/**
+ * The types a schema allows; empty when it doesn't say
+ * 3.0 `nullable` and 3.1 type lists both allow null
+ */
+function allowedTypes(schema: OpenAPISchema): string[] {
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    return schema.nullable && types.length > 0 ? [...types, 'null'] : types;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Check a value against a schema, adding what doesn't match to `issues`
+ * Of oneOf/anyOf options, the one the value matches best is reported
+ */
+function validateValue(value: unknown, schema: OpenAPISchema | undefined, document: unknown, path: string, issues: ContractIssue[]): void {
+    if (issues.length >= MAX_ISSUES) return;
+
+    const resolved = dereferenceSchema(schema, document);
+    const options = resolved.oneOf || resolved.anyOf;
+    if (options && options.length > 0) {
+        const rest = { ...resolved };
+        delete rest.oneOf;
+        delete rest.anyOf;
+
+        const candidates = options.map((option) => {
+            const optionIssues: ContractIssue[] = [];
+            validateValue(value, mergeSchemas(rest, dereferenceSchema(option, document)), document, path, optionIssues);
+            return optionIssues;
+        });
+        const best = candidates.reduce((fewest, current) => (current.length < fewest.length ? current : fewest));
+        issues.push(...best);
+        return;
+    }
+
+    const types = allowedTypes(resolved);
+    if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+        issues.push({ kind: 'type', path, message: `Expected ${types.join(' or ')}, got ${jsonType(value)}` });
+        return;
+    }
+
+    const allowed = resolved.const !== undefined ? [resolved.const] : resolved.enum;
+    if (allowed && !allowed.some((option) => isSameValue(option, value))) {
+        issues.push({
+            kind: 'enum',
+            path,
+            message: `${JSON.stringify(value)} is not one of ${allowed.map((option) => JSON.stringify(option)).join(', ')}`,
+        });
+    }
+
+    if (jsonType(value) === 'object') {
+        const object = value as Record<string, unknown>;
+        const properties = resolved.properties || {};
+
+        for (const name of resolved.required || []) {
+            if (!(name in object)) {
+                issues.push({ kind: 'required', path: childPath(path, name), message: 'Required property is missing' });
+            }
+        }
+
+        for (const [key, child] of Object.entries(object)) {
+            if (key in properties) {
+                validateValue(child, properties[key], document, childPath(path, key), issues);
+            } else if (resolved.additionalProperties && typeof resolved.additionalProperties === 'object') {
+                validateValue(child, resolved.additionalProperties, document, childPath(path, key), issues);
+            } else if (resolved.additionalProperties !== true && resolved.properties) {
+                // Only objects that list their properties can have extra ones
+                issues.push({ kind: 'extra', path: childPath(path, key), message: 'Property is not declared in the spec' });
+            }
+        }
+    }
+
+    if (Array.isArray(value) && resolved.items) {
+        value.forEach((item, index) => validateValue(item, resolved.items, document, childPath(path, index), issues));
+    }
+}
+
+/**
+ * The declared response for a status: the exact code, then its range (e.g. 4XX), then default
+ */
+function matchStatus(responses: OpenAPIResponses, status: number): string | undefined {
+    const code = String(status);
+    const range = `${code[0]}XX`;
+    const keys = Object.keys(responses);
+
+    return keys.find((key) => key === code)
+        ?? keys.find((key) => key.toUpperCase() === range)
+        ?? keys.find((key) => key === 'default');
+}
+
+/**
+ * The declared media type a content type falls under: exact, then type/*, then *\/*
+ */
+function matchMediaType(declared: string[], contentType: string): string | undefined {
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    const [type] = mediaType.split('/');
+
+    return declared.find((key) => key.toLowerCase() === mediaType)
+        ?? declared.find((key) => key.toLowerCase() === `${type}/*`)
+        ?? declared.find((key) => key === '*/*');
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+    return /[/+]json\b/i.test(mediaType);
+}
+
+function isEmptyBody(data: unknown): boolean {
+    return data === undefined || data === null || data === '';
+}
+
+/**
+ * Check a response against what the spec declares for its operation: the status code,
+ * the content type, and for JSON the body against the response schema
+ * Returns undefined when there is nothing to check (the operation is gone from the spec,
+ * or the request never got a response)
+ */
+export function validateResponse(document: unknown, operationRef: SpecOperationRef, response: ResponseState): ContractResult | undefined {
+    if (response.status === 0) return undefined;
+
+    const pathItem = resolveRefs<Record<string, unknown>>(
+        (document as { paths?: Record<string, Record<string, unknown>> } | undefined)?.paths?.[operationRef.path],
+        document
+    );
+    const operation = pathItem?.[operationRef.method.toLowerCase()] as { responses?: OpenAPIResponses } | undefined;
+    if (!operation) return undefined;
+
+    const result: ContractResult = { operation: `${operationRef.method} ${operationRef.path}`, issues: [] };
+    const responses = operation.responses || {};
+
+    const matchedStatus = matchStatus(responses, response.status);
+    if (!matchedStatus) {
+        const declared = Object.keys(responses);
+        result.issues.push({
+            kind: 'status',
+            path: '$',
+            message: `Status ${response.status} is not declared${declared.length > 0 ? ` (expected ${declared.join(', ')})` : ''}`,
+        });
+        return result;
+    }
+    result.matchedStatus = matchedStatus;
+
+    const declaredResponse = resolveRefs<OpenAPIResponse>(responses[matchedStatus], document);
+    const content = declaredResponse?.content || {};
+    const mediaTypes = Object.keys(content);
+    // Responses declared without content aren't checked further
+    if (mediaTypes.length === 0) return result;
+
+    const contentType = getResponseHeader(response, 'content-type');
+    if (!contentType) {
+        if (!isEmptyBody(response.data)) {
+            result.issues.push({ kind: 'contentType', path: '$', message: `No Content-Type (expected ${mediaTypes.join(', ')})` });
+        }
+        return result;
+    }
+
+    const mediaType = matchMediaType(mediaTypes, contentType);
+    if (!mediaType) {
+        result.issues.push({
+            kind: 'contentType',
+            path: '$',
+            message: `Content-Type ${contentType} is not declared (expected ${mediaTypes.join(', ')})`,
+        });
+        return result;
+    }
+
+    const schema = content[mediaType].schema;
+    if (schema && isJsonMediaType(contentType)) {
+        validateValue(response.data, schema, document, '$', result.issues);
+        result.issues = result.issues.slice(0, MAX_ISSUES);
+    }
+    return result;
+}
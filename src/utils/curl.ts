@@ -0,0 +1,265 @@
+import type { FormField, HeaderField, HttpMethod, QueryParam } from '../types';
+import { parsePairs } from './queryString';
+import { parseRequestBody, type RequestBodyData } from './requestBody';
+import { serializeBody, type BuiltRequest } from './requestBuilder';
+
+// A cURL command reduced to what a method block can hold
+export interface ParsedCurl {
+    method: HttpMethod;
+    // Scheme, host and port, e.g. "https://api.example.com"
+    baseUrl: string;
+    // e.g. "/users/42"
+    path: string;
+    queryParams: QueryParam[];
+    headers: HeaderField[];
+    body: RequestBodyData;
+    bearerToken?: string;
+}
+
+const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+// Flags whose value is a header
+const HEADER_FLAGS: Record<string, string> = {
+    '-A': 'User-Agent',
+    '--user-agent': 'User-Agent',
+    '-b': 'Cookie',
+    '--cookie': 'Cookie',
+    '-e': 'Referer',
+    '--referer': 'Referer',
+};
+
+const DATA_FLAGS = ['-d', '--data', '--data-raw', '--data-binary', '--data-ascii', '--json'];
+
+// Flags that add a multipart field
+const FORM_FLAGS = ['-F', '--form', '--form-string'];
+
+// Flags that take a value we don't use
+const IGNORED_VALUE_FLAGS = [
+    '-o', '--output', '-m', '--max-time', '--connect-timeout', '-w', '--write-out',
+    '-x', '--proxy', '--retry', '-c', '--cookie-jar', '--cacert', '--cert', '--key',
+];
+
+/**
+ * Split a shell command into words, honouring quotes, escapes and line continuations
+ */
+export function tokenizeShellCommand(command: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let inToken = false;
+    let quote: '"' | "'" | null = null;
+
+    for (let i = 0; i < command.length; i++) {
+        const char = command[i];
+
+        if (quote === "'") {
+            if (char === "'") quote = null;
+            else current += char;
+            continue;
+        }
+
+        if (char === '\\') {
+            const next = command[i + 1];
+            i++;
+            // Backslash-newline is a line continuation
+            if (next === '\n' || next === '\r') {
+                if (next === '\r' && command[i + 1] === '\n') i++;
+                continue;
+            }
+            if (next !== undefined) {
+                // Inside double quotes only a few characters are escapable
+                current += quote === '"' && !['"', '\\', '$', '`'].includes(next) ? '\\' + next : next;
+                inToken = true;
+            }
+            continue;
+        }
+
+        if (quote === '"') {
+            if (char === '"') quote = null;
+            else current += char;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            quote = char;
+            inToken = true;
+        } else if (/\s/.test(char)) {
+            if (inToken) tokens.push(current);
+            current = '';
+            inToken = false;
+        } else {
+            current += char;
+            inToken = true;
+        }
+    }
+
+    if (quote) throw new Error('Unterminated quote in cURL command');
+    if (inToken) tokens.push(current);
+
+    return tokens;
+}
+
+/**
+ * Parse a -F value: name=value, or name=@path for a file (which has to be chosen again in the editor)
+ */
+function parseFormFlag(value: string, literal: boolean): FormField {
+    const eq = value.indexOf('=');
+    const key = eq >= 0 ? value.slice(0, eq) : value;
+    const content = eq >= 0 ? value.slice(eq + 1) : '';
+
+    if (!literal && content.startsWith('@')) {
+        // Drop ;type=... and other field options
+        return { key, value: content.slice(1).split(';')[0], isFile: true };
+    }
+    return { key, value: content };
+}
+
+/**
+ * Split an absolute URL into base URL, path and query string
+ */
+function splitUrl(rawUrl: string): { baseUrl: string; path: string; query: string } {
+    const url = /^[a-z][\w+.-]*:\/\//i.test(rawUrl) ? rawUrl : `http://${rawUrl}`;
+    const match = url.match(/^([a-z][\w+.-]*:\/\/[^/?#]+)([^?#]*)(?:\?([^#]*))?/i);
+    if (!match) throw new Error(`Invalid URL: ${rawUrl}`);
+
+    return { baseUrl: match[1], path: match[2] || '', query: match[3] || '' };
+}
+
+/**
+ * Parse a cURL command (as copied from browser dev tools, docs or chat)
+ * Supports -X, -H, -d/--data-raw/--data-urlencode, -F, -u, -G and --url
+ */
+export function parseCurl(command: string): ParsedCurl {
+    const [program, ...words] = tokenizeShellCommand(command.trim());
+    if (program !== 'curl') throw new Error('Not a cURL command');
+
+    // Long options may be written --flag=value
+    const args = words.flatMap((word) => {
+        const eqIndex = word.startsWith('--') ? word.indexOf('=') : -1;
+        return eqIndex > 0 ? [word.slice(0, eqIndex), word.slice(eqIndex + 1)] : [word];
+    });
+
+    let method: string | null = null;
+    let url: string | null = null;
+    let useGet = false;
+    const headers: HeaderField[] = [];
+    const dataParts: string[] = [];
+    const formFields: FormField[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        const token = args[i];
+        const takeValue = () => {
+            const value = args[++i];
+            if (value === undefined) throw new Error(`Missing value for ${token}`);
+            return value;
+        };
+
+        if (token === '-X' || token === '--request') {
+            method = takeValue().toUpperCase();
+        } else if (token.startsWith('-X')) {
+            // Short options may carry their value attached, e.g. -XDELETE
+            method = token.slice(2).toUpperCase();
+        } else if (token === '-H' || token === '--header') {
+            const header = takeValue();
+            const colonIndex = header.indexOf(':');
+            if (colonIndex > 0) {
+                headers.push({ key: header.slice(0, colonIndex).trim(), value: header.slice(colonIndex + 1).trim() });
+            }
+        } else if (DATA_FLAGS.includes(token)) {
+            dataParts.push(takeValue());
+            if (token === '--json') {
+                headers.push({ key: 'Content-Type', value: 'application/json' });
+            }
+        } else if (token === '--data-urlencode') {
+            // name=content is sent encoded; keep the plain value so it can be edited
+            const value = takeValue();
+            const eq = value.indexOf('=');
+            dataParts.push(eq >= 0
+                ? `${encodeURIComponent(value.slice(0, eq))}=${encodeURIComponent(value.slice(eq + 1))}`
+                : encodeURIComponent(value));
+        } else if (FORM_FLAGS.includes(token)) {
+            formFields.push(parseFormFlag(takeValue(), token === '--form-string'));
+        } else if (token === '-u' || token === '--user') {
+            headers.push({ key: 'Authorization', value: `Basic ${btoa(takeValue())}` });
+        } else if (token === '--url') {
+            url = takeValue();
+        } else if (token === '-G' || token === '--get') {
+            useGet = true;
+        } else if (HEADER_FLAGS[token]) {
+            headers.push({ key: HEADER_FLAGS[token], value: takeValue() });
+        } else if (IGNORED_VALUE_FLAGS.includes(token)) {
+            takeValue();
+        } else if (!token.startsWith('-') && url === null) {
+            url = token;
+        }
+    }
+
+    if (!url) throw new Error('No URL found in cURL command');
+
+    // Like curl, data and form fields make a POST unless -G or -X says otherwise
+    const hasBody = (dataParts.length > 0 && !useGet) || formFields.length > 0;
+    const resolvedMethod = (method || (hasBody ? 'POST' : 'GET')) as HttpMethod;
+    if (!SUPPORTED_METHODS.includes(resolvedMethod)) {
+        throw new Error(`Unsupported method: ${resolvedMethod}`);
+    }
+
+    const { baseUrl, path, query } = splitUrl(url);
+    const data = dataParts.join('&');
+    const contentType = headers.find((header) => header.key.toLowerCase() === 'content-type')?.value;
+
+    // -G moves the data into the query string
+    const queryParams = parsePairs([query, useGet ? data : ''].filter(Boolean).join('&'))
+        .map((param) => ({ ...param, enabled: true }));
+
+    // The bearer token has its own field on method blocks
+    let bearerToken: string | undefined;
+    const remainingHeaders = headers.filter((header) => {
+        const bearer = header.key.toLowerCase() === 'authorization' && header.value.match(/^Bearer\s+(.+)$/i);
+        if (bearer) bearerToken = bearer[1];
+        return !bearer;
+    });
+
+    return {
+        method: resolvedMethod,
+        baseUrl,
+        path,
+        queryParams,
+        headers: remainingHeaders,
+        body: formFields.length > 0
+            ? { bodyType: 'multipart', formFields }
+            : useGet ? {} : parseRequestBody(data, contentType),
+        bearerToken,
+    };
+}
+
+/**
+ * Quote a word for POSIX shells
+ */
+export function shellQuote(value: string): string {
+    if (/^[\w@%+=:,./-]+$/.test(value)) return value;
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Render a built request as a cURL command
+ */
+export function toCurl(request: BuiltRequest): string {
+    const lines = [`curl${request.method !== 'GET' ? ` -X ${request.method}` : ''} ${shellQuote(request.url)}`];
+
+    for (const [key, value] of Object.entries(request.headers)) {
+        // curl sets the multipart Content-Type itself, with the boundary
+        if (request.body?.type === 'multipart' && key.toLowerCase() === 'content-type') continue;
+        lines.push(`-H ${shellQuote(`${key}: ${value}`)}`);
+    }
+
+    if (request.body?.type === 'multipart') {
+        for (const field of request.body.fields) {
+            lines.push(field.isFile
+                ? `-F ${shellQuote(`${field.key}=@${field.file?.name ?? field.value}`)}`
+                : `--form-string ${shellQuote(`${field.key}=${field.value}`)}`);
+        }
+    } else if (request.body) {
+        lines.push(`--data-raw ${shellQuote(serializeBody(request.body))}`);
+    }
+
+    return lines.join(' \\\n  ');
+}
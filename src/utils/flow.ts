@@ -0,0 +1,64 @@
+import type { Edge } from 'reactflow';
+import type { ApiBlock, ResponseState } from '../types';
+
+// Handle id used on method blocks for "then" edges (method → method)
+export const FLOW_HANDLE_ID = 'then';
+
+/**
+ * "Then" edges chain method blocks into a flow; they are never part of a URL path
+ */
+export function isFlowEdge(edge: Edge): boolean {
+    return edge.sourceHandle === FLOW_HANDLE_ID;
+}
+
+/**
+ * Edge props for a new "then" edge
+ */
+export function createFlowEdge(id: string, source: string, target: string): Edge {
+    return {
+        id,
+        source,
+        target,
+        sourceHandle: FLOW_HANDLE_ID,
+        targetHandle: FLOW_HANDLE_ID,
+        animated: true,
+        label: 'then',
+        style: { stroke: '#6366f1', strokeWidth: 2 },
+    };
+}
+
+/**
+ * Follow "then" edges from a method block and return the ordered list of method block ids
+ * When a block has several "then" edges, the topmost target goes first; cycles stop the walk
+ */
+export function getFlowSequence(startNodeId: string, nodes: ApiBlock[], edges: Edge[]): string[] {
+    const sequence: string[] = [];
+    const visited = new Set<string>();
+    let currentId: string | undefined = startNodeId;
+
+    while (currentId && !visited.has(currentId)) {
+        visited.add(currentId);
+        sequence.push(currentId);
+
+        const nextTargets = edges
+            .filter((e) => e.source === currentId && isFlowEdge(e))
+            .map((e) => nodes.find((n) => n.id === e.target))
+            .filter((n): n is ApiBlock => !!n && n.data.type === 'method')
+            .sort((a, b) => a.position.y - b.position.y);
+
+        currentId = nextTargets[0]?.id;
+    }
+
+    return sequence;
+}
+
+/**
+ * Whether a response counts as a successful step
+ * With assertions, they decide alone (so an expected 404 passes); otherwise 2xx/3xx passes
+ */
+export function isSuccessfulResponse(response: ResponseState): boolean {
+    if (response.assertionResults && response.assertionResults.length > 0) {
+        return response.assertionResults.every((result) => result.passed);
+    }
+    return response.status >= 200 && response.status < 400;
+}
@@ -0,0 +1,243 @@
+import type { ApiBlock, HeaderField, HistoryItem, HttpMethod, QueryParam } from '../types';
+import type { Edge } from 'reactflow';
+import { LAYOUT, layoutEndpointTree } from './importLayout';
+import type { EndpointSpec, ImportResult } from './importLayout';
+import { parsePairs } from './queryString';
+import { bodyTypeForContentType, parseRequestBody, type RequestBodyData } from './requestBody';
+
+// HAR 1.2 types (simplified for our needs)
+interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+interface HarRequest {
+    method: string;
+    url: string;
+    headers?: HarNameValue[];
+    queryString?: HarNameValue[];
+    postData?: {
+        mimeType?: string;
+        text?: string;
+        params?: Array<{ name: string; value?: string; fileName?: string }>;
+    };
+}
+
+interface HarEntry {
+    startedDateTime?: string;
+    request: HarRequest;
+    // Chrome devtools marks entries with their resource type (xhr, fetch, script...)
+    _resourceType?: string;
+}
+
+export interface HarLog {
+    log: {
+        version?: string;
+        entries: HarEntry[];
+    };
+}
+
+const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+// Headers the browser sets itself and refuses from scripts
+const SKIPPED_HEADERS = [
+    'accept-charset', 'accept-encoding', 'connection', 'content-length', 'cookie', 'date', 'host',
+    'keep-alive', 'origin', 'referer', 'te', 'trailer', 'transfer-encoding', 'upgrade', 'via', 'user-agent',
+];
+
+// Static assets captured alongside API calls
+const STATIC_EXTENSIONS = /\.(js|mjs|css|map|png|jpe?g|gif|svg|ico|webp|woff2?|ttf|html?)$/i;
+
+function isApiEntry(entry: HarEntry): boolean {
+    if (entry._resourceType) return ['xhr', 'fetch'].includes(entry._resourceType);
+
+    const path = entry.request.url.split(/[?#]/)[0];
+    return !STATIC_EXTENSIONS.test(path);
+}
+
+/**
+ * Turn captured headers into method block headers and bearer token
+ */
+function extractHeaders(headers: HarNameValue[]): { headers: HeaderField[]; bearerToken?: string } {
+    const result: HeaderField[] = [];
+    let bearerToken: string | undefined;
+
+    for (const { name, value } of headers) {
+        const lowerName = name.toLowerCase();
+        if (name.startsWith(':') || SKIPPED_HEADERS.includes(lowerName)) continue;
+        if (lowerName.startsWith('sec-') || lowerName.startsWith('proxy-')) continue;
+
+        const bearer = lowerName === 'authorization' && value.match(/^Bearer\s+(.+)$/i);
+        if (bearer) {
+            bearerToken = bearer[1];
+        } else if (!result.some((header) => header.key.toLowerCase() === lowerName)) {
+            result.push({ key: name, value });
+        }
+    }
+
+    return { headers: result, bearerToken };
+}
+
+function extractBody(postData: HarRequest['postData']): RequestBodyData {
+    if (!postData) return {};
+    if (postData.params && postData.params.length > 0) {
+        const bodyType = bodyTypeForContentType(postData.mimeType || '') === 'multipart' ? 'multipart' : 'form';
+        return {
+            bodyType,
+            // Captured file contents are not kept; file fields have to be chosen again
+            formFields: postData.params.map(({ name, value, fileName }) => (
+                bodyType === 'multipart' && fileName
+                    ? { key: name, value: fileName, isFile: true }
+                    : { key: name, value: value ?? '' }
+            )),
+        };
+    }
+
+    try {
+        return parseRequestBody(postData.text || '', postData.mimeType);
+    } catch {
+        // Captured bodies that don't parse as their type are left out
+        return {};
+    }
+}
+
+/**
+ * Convert a HAR capture into TLDFetch nodes and edges
+ * Every distinct method + URL path becomes one method block, prefilled from its first capture
+ */
+export function importHar(har: HarLog): ImportResult {
+    const byBaseUrl = new Map<string, EndpointSpec[]>();
+    const seen = new Set<string>();
+
+    for (const entry of har.log.entries) {
+        const method = entry.request.method.toUpperCase() as HttpMethod;
+        if (!SUPPORTED_METHODS.includes(method) || !isApiEntry(entry)) continue;
+
+        const match = entry.request.url.match(/^([a-z][\w+.-]*:\/\/[^/?#]+)([^?#]*)(?:\?([^#]*))?/i);
+        if (!match) continue;
+
+        const [, baseUrl, path = '', query = ''] = match;
+        const endpointKey = `${method} ${baseUrl}${path}`;
+        if (seen.has(endpointKey)) continue;
+        seen.add(endpointKey);
+
+        const queryParams: QueryParam[] = (entry.request.queryString
+            ? entry.request.queryString.map(({ name, value }) => ({ key: name, value }))
+            : parsePairs(query)
+        ).map((param) => ({ ...param, enabled: true }));
+
+        const { headers, bearerToken } = extractHeaders(entry.request.headers || []);
+        const body = extractBody(entry.request.postData);
+
+        byBaseUrl.set(baseUrl, [...(byBaseUrl.get(baseUrl) || []), {
+            path,
+            method,
+            queryParams,
+            data: {
+                headers: headers.length > 0 ? headers : undefined,
+                ...body,
+                bearerToken,
+            },
+        }]);
+    }
+
+    const nodes: ApiBlock[] = [];
+    const edges: Edge[] = [];
+    let totalEndpoints = 0;
+    let originY = LAYOUT.BASE_URL_Y - 100;
+
+    for (const [baseUrl, endpoints] of byBaseUrl) {
+        const layout = layoutEndpointTree(baseUrl, endpoints, originY);
+        nodes.push(...layout.nodes);
+        edges.push(...layout.edges);
+        totalEndpoints += layout.endpoints;
+        originY += layout.height + LAYOUT.BAND_SPACING_Y;
+    }
+
+    return {
+        nodes,
+        edges,
+        stats: {
+            endpoints: totalEndpoints,
+            baseUrl: byBaseUrl.keys().next().value || '',
+            paths: new Set(Array.from(seen, (key) => key.slice(key.indexOf(' ') + 1))).size,
+        },
+    };
+}
+
+function toNameValues(record: Record<string, string>): HarNameValue[] {
+    return Object.entries(record).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function getQueryString(url: string): HarNameValue[] {
+    const queryIndex = url.indexOf('?');
+    if (queryIndex < 0) return [];
+    return parsePairs(url.slice(queryIndex + 1)).map(({ key, value }) => ({ name: key, value }));
+}
+
+/**
+ * Build a HAR 1.2 document from request history, oldest request first
+ */
+export function toHar(history: HistoryItem[]): string {
+    const entries = [...history]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map((item) => {
+            const request = item.request;
+            const responseText = typeof item.data === 'string' ? item.data : JSON.stringify(item.data ?? '');
+            const contentType = Object.entries(item.headers || {})
+                .find(([name]) => name.toLowerCase() === 'content-type')?.[1] || 'application/json';
+            const requestContentType = Object.entries(request?.headers || {})
+                .find(([name]) => name.toLowerCase() === 'content-type')?.[1] || 'application/json';
+
+            return {
+                startedDateTime: new Date(item.timestamp).toISOString(),
+                time: item.time,
+                request: {
+                    method: item.method,
+                    url: item.url,
+                    httpVersion: 'HTTP/1.1',
+                    cookies: [],
+                    headers: toNameValues(request?.headers || {}),
+                    queryString: getQueryString(item.url),
+                    ...(request?.body ? { postData: { mimeType: requestContentType, text: request.body } } : {}),
+                    headersSize: -1,
+                    bodySize: request?.body ? request.body.length : 0,
+                },
+                response: {
+                    status: item.status,
+                    statusText: item.statusText,
+                    httpVersion: 'HTTP/1.1',
+                    cookies: [],
+                    headers: toNameValues(item.headers || {}),
+                    content: {
+                        size: item.size,
+                        mimeType: String(contentType),
+                        text: responseText,
+                    },
+                    redirectURL: '',
+                    headersSize: -1,
+                    bodySize: item.size,
+                },
+                cache: {},
+                timings: { send: 0, wait: item.time, receive: 0 },
+            };
+        });
+
+    return JSON.stringify({
+        log: {
+            version: '1.2',
+            creator: { name: 'TLDFetch', version: '1.0.0' },
+            entries,
+        },
+    }, null, 2);
+}
+
+/**
+ * Validate that the parsed file looks like a HAR capture
+ */
+export function validateHar(har: unknown): har is HarLog {
+    if (!har || typeof har !== 'object') return false;
+    const log = (har as Record<string, unknown>).log;
+
+    return !!log && typeof log === 'object' && Array.isArray((log as Record<string, unknown>).entries);
+}
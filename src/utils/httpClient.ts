@@ -0,0 +1,78 @@
+import axios, { type AxiosAdapter, type AxiosRequestConfig } from 'axios';
+import type { ResponseState } from '../types';
+import { loadFile } from '../store/indexedDB';
+import { serializeBody, type BuiltBody, type BuiltRequest } from './requestBuilder';
+
+/**
+ * Turn a built body into what axios sends
+ * Multipart files are read back from IndexedDB here, so building a request stays synchronous
+ */
+async function toRequestData(body: BuiltBody): Promise<unknown> {
+    switch (body.type) {
+        case 'json':
+            return body.data;
+        case 'multipart': {
+            const form = new FormData();
+            for (const field of body.fields) {
+                if (!field.isFile) {
+                    form.append(field.key, field.value);
+                    continue;
+                }
+                if (!field.file) throw new Error(`No file chosen for "${field.key}"`);
+
+                const blob = await loadFile(field.file.id);
+                if (!blob) throw new Error(`File "${field.file.name}" is no longer stored, choose it again`);
+                form.append(field.key, blob, field.file.name);
+            }
+            return form;
+        }
+        default:
+            return serializeBody(body);
+    }
+}
+
+/**
+ * Send a built request and normalize the outcome into a ResponseState
+ * Network and HTTP errors resolve too (status 0 for network errors), they never throw
+ * An `adapter` (e.g. mock mode's) answers in place of the network
+ */
+export async function sendRequest(request: BuiltRequest, adapter?: AxiosAdapter): Promise<ResponseState> {
+    const startTime = Date.now();
+
+    const config: AxiosRequestConfig = {
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        ...(adapter ? { adapter } : {}),
+    };
+
+    try {
+        if (request.body) {
+            config.data = await toRequestData(request.body);
+        }
+
+        const response = await axios(config);
+        const endTime = Date.now();
+
+        return {
+            status: response.status,
+            statusText: response.statusText,
+            data: response.data,
+            headers: response.headers as Record<string, string>,
+            time: endTime - startTime,
+            size: response.data === undefined ? 0 : JSON.stringify(response.data).length,
+        };
+    } catch (error) {
+        const endTime = Date.now();
+        const axiosError = axios.isAxiosError(error) ? error : null;
+
+        return {
+            status: axiosError?.response?.status || 0,
+            statusText: axiosError?.response?.statusText || 'Error',
+            data: axiosError?.response?.data || { error: error instanceof Error ? error.message : String(error) },
+            headers: (axiosError?.response?.headers as Record<string, string>) || {},
+            time: endTime - startTime,
+            size: 0,
+        };
+    }
+}
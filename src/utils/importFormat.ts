@@ -0,0 +1,20 @@
+import { parseOpenAPIJson, validateOpenAPISpec } from './openApiImporter';
+import { validatePostmanCollection } from './postmanImporter';
+import { validateHar } from './har';
+import { isWorkspaceFile } from '../store/workspaceFile';
+
+export type ImportFormat = 'openapi' | 'postman' | 'har' | 'workspace';
+
+/**
+ * Detect which importer understands a file's content
+ */
+export function detectImportFormat(content: string): ImportFormat {
+    const parsed: unknown = parseOpenAPIJson(content);
+
+    if (isWorkspaceFile(parsed)) return 'workspace';
+    if (validateOpenAPISpec(parsed)) return 'openapi';
+    if (validatePostmanCollection(parsed)) return 'postman';
+    if (validateHar(parsed)) return 'har';
+
+    throw new Error('Unrecognized file: expected a workspace, an OpenAPI spec, a Postman collection or a HAR file');
+}
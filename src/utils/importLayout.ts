@@ -0,0 +1,399 @@
+import { nanoid } from 'nanoid';
+import type { Edge } from 'reactflow';
+import type { ApiBlock, BlockData, HttpMethod, PathParamInfo, QueryParam } from '../types';
+import { isFlowEdge } from './flow';
+import { findPathParams } from './template';
+
+// Layout constants - generous spacing for readability
+export const LAYOUT = {
+    BASE_URL_X: 100,
+    BASE_URL_Y: 300,
+    RESOURCE_START_X: 400,
+    RESOURCE_SPACING_X: 280,
+    PATH_SPACING_Y: 220,
+    METHOD_OFFSET_X: 80,
+    METHOD_SPACING_Y: 90,
+    QUERY_OFFSET_X: 280,
+    BAND_SPACING_Y: 160,
+};
+
+// Result type shared by every importer
+export interface ImportResult {
+    nodes: ApiBlock[];
+    edges: Edge[];
+    stats: {
+        endpoints: number;
+        baseUrl: string;
+        paths: number;
+    };
+    // Variables the source defines (e.g. Postman collection variables)
+    variables?: Record<string, string>;
+}
+
+// One request to lay out under a base URL
+export interface EndpointSpec {
+    // e.g., "/users/{userId}/orders"
+    path: string;
+    method: HttpMethod;
+    // Extra method block data (body fields, headers, token, tags...)
+    data?: Partial<BlockData>;
+    queryParams?: QueryParam[];
+    // Spec info of the {name} path parameters, keyed by name
+    pathParams?: Record<string, PathParamInfo>;
+}
+
+export interface LayoutResult {
+    nodes: ApiBlock[];
+    edges: Edge[];
+    endpoints: number;
+    // Vertical space the tree takes, for stacking bands
+    height: number;
+}
+
+/**
+ * Parse a path string into segments
+ * e.g., "/users/{userId}/orders" → ["users", "{userId}", "orders"]
+ */
+export function parsePathSegments(path: string): string[] {
+    return path
+        .split('/')
+        .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Build a tree structure from paths to share common prefixes
+ */
+interface PathNode {
+    segment: string;
+    children: Map<string, PathNode>;
+    methods: EndpointSpec[];
+    fullPath: string;
+    // Info of the segment's path parameters, from the endpoints passing through it
+    pathParams: Record<string, PathParamInfo>;
+}
+
+/**
+ * Resource block data for a path segment, with the info of its path parameters
+ */
+function resourceData(segment: string, pathParams: Record<string, PathParamInfo> = {}): BlockData {
+    const data: BlockData = {
+        type: 'resource',
+        value: segment,
+        isParam: segment.startsWith('{') && segment.endsWith('}'),
+    };
+
+    const info = Object.fromEntries(
+        findPathParams(segment)
+            .filter((name) => pathParams[name])
+            .map((name) => [name, pathParams[name]])
+    );
+    if (Object.keys(info).length > 0) data.pathParams = info;
+
+    return data;
+}
+
+function buildPathTree(endpoints: EndpointSpec[]): PathNode {
+    const root: PathNode = {
+        segment: '',
+        children: new Map(),
+        methods: [],
+        fullPath: '',
+        pathParams: {},
+    };
+
+    for (const endpoint of endpoints) {
+        const segments = parsePathSegments(endpoint.path);
+        let current = root;
+        let currentPath = '';
+
+        for (const segment of segments) {
+            currentPath += '/' + segment;
+
+            if (!current.children.has(segment)) {
+                current.children.set(segment, {
+                    segment,
+                    children: new Map(),
+                    methods: [],
+                    fullPath: currentPath,
+                    pathParams: {},
+                });
+            }
+            current = current.children.get(segment)!;
+
+            for (const name of findPathParams(segment)) {
+                const info = endpoint.pathParams?.[name];
+                if (info && !current.pathParams[name]) current.pathParams[name] = info;
+            }
+        }
+
+        // Add the method to the leaf node
+        current.methods.push(endpoint);
+    }
+
+    return root;
+}
+
+/**
+ * Lay out a base URL block and the resource/query/method chains of its endpoints
+ * Endpoints sharing a path prefix share resource blocks
+ */
+export function layoutEndpointTree(
+    baseUrl: string,
+    endpoints: EndpointSpec[],
+    originY: number = LAYOUT.BASE_URL_Y - 100,
+    baseData: Partial<BlockData> = {}
+): LayoutResult {
+    const nodes: ApiBlock[] = [];
+    const edges: Edge[] = [];
+    let totalEndpoints = 0;
+
+    // Create base URL node
+    const baseUrlId = nanoid();
+    nodes.push({
+        id: baseUrlId,
+        type: 'baseUrl',
+        position: { x: LAYOUT.BASE_URL_X, y: originY + 100 },
+        data: { ...baseData, type: 'baseUrl', value: baseUrl },
+    });
+
+    // Create query (optional) and method nodes for one endpoint under its parent block
+    function addMethodChain(endpoint: EndpointSpec, parentId: string, x: number, y: number) {
+        const methodId = nanoid();
+        let methodX = x;
+        let methodParentId = parentId;
+
+        // Query parameters get their own block between the resource and the method
+        if (endpoint.queryParams && endpoint.queryParams.length > 0) {
+            const queryId = nanoid();
+
+            nodes.push({
+                id: queryId,
+                type: 'query',
+                position: { x: methodX, y },
+                data: {
+                    type: 'query',
+                    value: '',
+                    queryParams: endpoint.queryParams,
+                },
+            });
+
+            edges.push({
+                id: nanoid(),
+                source: parentId,
+                target: queryId,
+            });
+
+            methodX += LAYOUT.QUERY_OFFSET_X;
+            methodParentId = queryId;
+        }
+
+        nodes.push({
+            id: methodId,
+            type: 'method',
+            position: { x: methodX, y },
+            data: {
+                ...endpoint.data,
+                type: 'method',
+                value: '',
+                method: endpoint.method,
+            },
+        });
+
+        edges.push({
+            id: nanoid(),
+            source: methodParentId,
+            target: methodId,
+        });
+
+        totalEndpoints++;
+    }
+
+    // Recursively create nodes from tree
+    function processNode(
+        node: PathNode,
+        parentId: string,
+        depth: number,
+        yOffset: number
+    ): number {
+        let currentY = yOffset;
+
+        for (const [segment, child] of node.children) {
+            const nodeId = nanoid();
+
+            // Calculate position
+            const x = LAYOUT.RESOURCE_START_X + (depth * LAYOUT.RESOURCE_SPACING_X);
+            const y = currentY;
+
+            // Create resource node
+            nodes.push({
+                id: nodeId,
+                type: 'resource',
+                position: { x, y },
+                data: resourceData(segment, child.pathParams),
+            });
+
+            // Connect to parent
+            edges.push({
+                id: nanoid(),
+                source: parentId,
+                target: nodeId,
+            });
+
+            // Create method nodes for this resource
+            let methodY = y;
+            for (const endpoint of child.methods) {
+                addMethodChain(endpoint, nodeId, x + LAYOUT.RESOURCE_SPACING_X + LAYOUT.METHOD_OFFSET_X, methodY);
+                methodY += LAYOUT.METHOD_SPACING_Y;
+            }
+
+            // Calculate space needed for children
+            const methodsHeight = Math.max(
+                child.methods.length * LAYOUT.METHOD_SPACING_Y,
+                LAYOUT.PATH_SPACING_Y
+            );
+
+            // Process children recursively
+            const childrenHeight = processNode(
+                child,
+                nodeId,
+                depth + 1,
+                currentY
+            );
+
+            // Move Y for next sibling
+            currentY += Math.max(methodsHeight, childrenHeight, LAYOUT.PATH_SPACING_Y);
+        }
+
+        return currentY - yOffset;
+    }
+
+    const pathTree = buildPathTree(endpoints);
+
+    // Endpoints on the root path ("/") hang directly off the base URL
+    let rootHeight = 0;
+    for (const endpoint of pathTree.methods) {
+        addMethodChain(endpoint, baseUrlId, LAYOUT.RESOURCE_START_X, originY + rootHeight);
+        rootHeight += LAYOUT.METHOD_SPACING_Y;
+    }
+
+    // Start processing from root
+    const treeHeight = processNode(pathTree, baseUrlId, 0, originY + rootHeight);
+
+    return {
+        nodes,
+        edges,
+        endpoints: totalEndpoints,
+        height: Math.max(rootHeight + treeHeight, LAYOUT.PATH_SPACING_Y),
+    };
+}
+
+export interface AttachResult {
+    // Blocks and edges to add to the canvas
+    nodes: ApiBlock[];
+    edges: Edge[];
+    methodId: string;
+}
+
+/**
+ * Add one endpoint to an existing canvas, reusing the base URL and resource blocks that match its prefix
+ * `resolve` turns block values into the text they send (e.g. interpolates {{variables}}) for matching
+ */
+export function attachEndpoint(
+    existingNodes: ApiBlock[],
+    existingEdges: Edge[],
+    baseUrl: string,
+    endpoint: EndpointSpec,
+    resolve: (value: string) => string = (value) => value,
+    baseData: Partial<BlockData> = {}
+): AttachResult {
+    const nodes: ApiBlock[] = [];
+    const edges: Edge[] = [];
+    const allEdges = () => [...existingEdges, ...edges];
+    const normalize = (value: string) => resolve(value).trim().replace(/\/+$/, '');
+
+    // Place new blocks right of their parent, below its other children
+    const childPosition = (parent: ApiBlock, offsetX: number) => {
+        const childCount = allEdges().filter((edge) => edge.source === parent.id && !isFlowEdge(edge)).length;
+        return { x: parent.position.x + offsetX, y: parent.position.y + childCount * LAYOUT.METHOD_SPACING_Y };
+    };
+
+    const addChild = (parent: ApiBlock, block: ApiBlock) => {
+        nodes.push(block);
+        edges.push({ id: nanoid(), source: parent.id, target: block.id });
+        return block;
+    };
+
+    // The base URL block may carry a path prefix (e.g. "https://api.example.com/v1"): longest match wins
+    const fullUrl = normalize(baseUrl) + '/' + parsePathSegments(endpoint.path).join('/');
+    let parent: ApiBlock | undefined;
+    let remaining = parsePathSegments(endpoint.path);
+
+    for (const node of existingNodes) {
+        if (node.data.type !== 'baseUrl') continue;
+        const value = normalize(node.data.value);
+        if (!value || !(fullUrl === value || fullUrl.startsWith(value + '/'))) continue;
+        if (parent && normalize(parent.data.value).length >= value.length) continue;
+
+        parent = node;
+        remaining = parsePathSegments(fullUrl.slice(value.length));
+    }
+
+    if (!parent) {
+        const bottom = existingNodes.reduce((max, node) => Math.max(max, node.position.y), -Infinity);
+        parent = {
+            id: nanoid(),
+            type: 'baseUrl',
+            position: {
+                x: LAYOUT.BASE_URL_X,
+                y: bottom === -Infinity ? LAYOUT.BASE_URL_Y : bottom + LAYOUT.PATH_SPACING_Y,
+            },
+            data: { ...baseData, type: 'baseUrl', value: baseUrl },
+        };
+        nodes.push(parent);
+    }
+
+    // Follow resource blocks whose segments match the start of the remaining path
+    while (remaining.length > 0) {
+        const current: ApiBlock = parent;
+        const match = existingNodes.find((node) => {
+            if (node.data.type !== 'resource') return false;
+            const connected = existingEdges.some((edge) => edge.source === current.id && edge.target === node.id && !isFlowEdge(edge));
+            const segments = parsePathSegments(resolve(node.data.value));
+            return connected && segments.length > 0 && segments.every((segment, i) => segment === remaining[i]);
+        });
+        if (!match) break;
+
+        parent = match;
+        remaining = remaining.slice(parsePathSegments(resolve(match.data.value)).length);
+    }
+
+    for (const segment of remaining) {
+        parent = addChild(parent, {
+            id: nanoid(),
+            type: 'resource',
+            position: childPosition(parent, LAYOUT.RESOURCE_SPACING_X),
+            data: resourceData(segment, endpoint.pathParams),
+        });
+    }
+
+    if (endpoint.queryParams && endpoint.queryParams.length > 0) {
+        parent = addChild(parent, {
+            id: nanoid(),
+            type: 'query',
+            position: childPosition(parent, LAYOUT.RESOURCE_SPACING_X + LAYOUT.METHOD_OFFSET_X),
+            data: { type: 'query', value: '', queryParams: endpoint.queryParams },
+        });
+    }
+
+    const methodOffsetX = parent.data.type === 'query'
+        ? LAYOUT.QUERY_OFFSET_X
+        : LAYOUT.RESOURCE_SPACING_X + LAYOUT.METHOD_OFFSET_X;
+    const method = addChild(parent, {
+        id: nanoid(),
+        type: 'method',
+        position: childPosition(parent, methodOffsetX),
+        data: { ...endpoint.data, type: 'method', value: '', method: endpoint.method },
+    });
+
+    return { nodes, edges, methodId: method.id };
+}
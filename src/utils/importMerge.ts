@@ -0,0 +1,158 @@
+import type { Edge } from 'reactflow';
+import type { ApiBlock, BlockData, ImportedSpec, SpecOperationRef } from '../types';
+import { isFlowEdge } from './flow';
+import { attachEndpoint, parsePathSegments, type EndpointSpec } from './importLayout';
+
+// What a re-import would do to the canvas, for previewing before it is applied
+export interface MergePlan {
+    // The canvas after the merge
+    nodes: ApiBlock[];
+    edges: Edge[];
+    // Endpoint labels such as "GET /users/{id}"
+    added: string[];
+    // In the canvas under the spec's base URL but no longer in the spec (flagged, not deleted)
+    removed: string[];
+    // In both: their blocks, values and positions are kept as they are
+    kept: string[];
+    // Variables the spec defines (server variable defaults), added where not already set
+    variables?: Record<string, string>;
+    // The re-imported spec, which method blocks of the merged endpoints now link to
+    spec?: ImportedSpec;
+}
+
+/**
+ * Walk from a method block up its (non-flow) parent edges to the base URL block
+ * Returns the chain base URL first, or null when it does not reach one
+ */
+function traceChain(method: ApiBlock, nodes: ApiBlock[], edges: Edge[]): ApiBlock[] | null {
+    const chain = [method];
+    const visited = new Set([method.id]);
+    let current = method;
+
+    while (current.data.type !== 'baseUrl') {
+        const edge = edges.find((e) => e.target === current.id && !isFlowEdge(e) && !visited.has(e.source));
+        const parent = edge && nodes.find((node) => node.id === edge.source);
+        if (!parent) return null;
+
+        chain.unshift(parent);
+        visited.add(parent.id);
+        current = parent;
+    }
+    return chain;
+}
+
+/**
+ * Merge a spec's endpoints into the canvas
+ * The spec's base URL blocks are those set to one of its servers, or offering one in their server list;
+ * endpoints under them are matched by method and path (variables resolved). New ones are attached
+ * to the blocks they share a prefix with, and endpoints the spec no longer has are flagged with
+ * `removedFromSpec`
+ */
+export function mergeEndpoints(
+    existingNodes: ApiBlock[],
+    existingEdges: Edge[],
+    baseUrl: string,
+    endpoints: EndpointSpec[],
+    resolve: (value: string) => string = (value) => value,
+    // Data for a base URL block the merge has to create
+    baseData: Partial<BlockData> = {}
+): MergePlan {
+    const normalize = (value: string) => resolve(value).trim().replace(/\/+$/, '');
+    const serverUrls = new Set((baseData.servers?.map((server) => server.url) ?? [baseUrl]).map(normalize));
+    const toKey = (method: string, path: string) => `${method} ${path}`;
+
+    // Base URL blocks of this spec, whichever of its servers they are switched to
+    const specBases = existingNodes.filter((node) => node.data.type === 'baseUrl' && (
+        serverUrls.has(normalize(node.data.value))
+        || (node.data.servers || []).some((server) => serverUrls.has(normalize(server.url)))
+    ));
+    const bases = [...new Set([...serverUrls, ...specBases.map((node) => normalize(node.data.value))])]
+        .filter(Boolean)
+        .sort((a, b) => b.length - a.length);
+
+    // The path of a URL below the longest base it falls under
+    const pathBelow = (url: string) => {
+        const base = bases.find((candidate) => url === candidate || url.startsWith(candidate + '/'));
+        return base === undefined ? null : url.slice(base.length) || '/';
+    };
+
+    // Existing endpoints under the spec's base URLs, by key; the same endpoint may sit under
+    // several of them (e.g. a production and a staging base URL block)
+    const existing = new Map<string, ApiBlock[]>();
+    for (const node of existingNodes) {
+        if (node.data.type !== 'method') continue;
+        const chain = traceChain(node, existingNodes, existingEdges);
+        if (!chain) continue;
+
+        const url = [
+            normalize(chain[0].data.value),
+            ...chain
+                .filter((block) => block.data.type === 'resource')
+                .flatMap((block) => parsePathSegments(resolve(block.data.value))),
+        ].join('/');
+        const path = pathBelow(url);
+        if (path !== null) {
+            const key = toKey(node.data.method || 'GET', path);
+            existing.set(key, [...(existing.get(key) || []), node]);
+        }
+    }
+
+    // New endpoints go under the spec's base URL block already on the canvas, if there is one
+    const attachBase = specBases[0]?.data.value ?? baseUrl;
+    let nodes = existingNodes;
+    let edges = existingEdges;
+    const added: string[] = [];
+    const kept: string[] = [];
+    const matchedIds = new Set<string>();
+    // Matched blocks follow their operation into the new spec
+    const operations = new Map<string, SpecOperationRef>();
+
+    for (const endpoint of endpoints) {
+        const key = toKey(endpoint.method, '/' + parsePathSegments(endpoint.path).join('/'));
+        const matches = existing.get(key);
+
+        if (matches) {
+            for (const match of matches) {
+                matchedIds.add(match.id);
+                if (endpoint.data?.operation) operations.set(match.id, endpoint.data.operation);
+            }
+            kept.push(key);
+            continue;
+        }
+
+        const result = attachEndpoint(nodes, edges, attachBase, endpoint, resolve, baseData);
+        nodes = [...nodes, ...result.nodes];
+        edges = [...edges, ...result.edges];
+        added.push(key);
+    }
+
+    const removed: string[] = [];
+    const removedIds = new Set<string>();
+    for (const [key, blocks] of existing) {
+        if (blocks.some((node) => matchedIds.has(node.id))) continue;
+        blocks.forEach((node) => removedIds.add(node.id));
+        removed.push(key);
+    }
+
+    // Flag what the spec dropped, clear the flag of endpoints it has again, and give the
+    // spec's base URL blocks its current server list
+    const specBaseIds = new Set(specBases.map((node) => node.id));
+    nodes = nodes.map((node) => {
+        if (specBaseIds.has(node.id)) {
+            const data = { ...node.data, servers: baseData.servers };
+            if (!data.servers) delete data.servers;
+            return { ...node, data };
+        }
+        if (removedIds.has(node.id)) return { ...node, data: { ...node.data, removedFromSpec: true } };
+        if (!matchedIds.has(node.id)) return node;
+
+        const operation = operations.get(node.id);
+        if (!node.data.removedFromSpec && !operation) return node;
+
+        const data = { ...node.data, ...(operation ? { operation } : {}) };
+        delete data.removedFromSpec;
+        return { ...node, data };
+    });
+
+    return { nodes, edges, added, removed, kept };
+}
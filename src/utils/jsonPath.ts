@@ -0,0 +1,74 @@
+type PathToken = string | number | '*';
+
+/**
+ * Tokenize a JSONPath expression
+ * Supports $, .key, ['key'], ["key"], [0], [-1] and [*] / .*
+ * e.g., "$.data.items[0]['user-id']" → ["data", "items", 0, "user-id"]
+ */
+export function parseJsonPath(path: string): PathToken[] {
+    const tokens: PathToken[] = [];
+    let rest = path.trim();
+
+    if (rest.startsWith('$')) {
+        rest = rest.slice(1);
+    }
+
+    const tokenPattern = /^(?:\.?([\w$-]+)|\.\*|\[\*\]|\[(-?\d+)\]|\[\s*(['"])(.*?)\3\s*\])/;
+
+    while (rest.length > 0) {
+        const match = rest.match(tokenPattern);
+        if (!match) {
+            throw new Error(`Invalid JSONPath near "${rest}"`);
+        }
+
+        if (match[1] !== undefined) {
+            tokens.push(match[1]);
+        } else if (match[2] !== undefined) {
+            tokens.push(Number(match[2]));
+        } else if (match[4] !== undefined) {
+            tokens.push(match[4]);
+        } else {
+            tokens.push('*');
+        }
+
+        rest = rest.slice(match[0].length);
+    }
+
+    return tokens;
+}
+
+function step(values: unknown[], token: PathToken): unknown[] {
+    const next: unknown[] = [];
+
+    for (const value of values) {
+        if (value === null || typeof value !== 'object') continue;
+
+        if (token === '*') {
+            next.push(...(Array.isArray(value) ? value : Object.values(value)));
+        } else if (typeof token === 'number') {
+            if (!Array.isArray(value)) continue;
+            const index = token < 0 ? value.length + token : token;
+            if (index >= 0 && index < value.length) next.push(value[index]);
+        } else if (token in value) {
+            next.push((value as Record<string, unknown>)[token]);
+        }
+    }
+
+    return next;
+}
+
+/**
+ * Evaluate a JSONPath expression against data
+ * Returns undefined when nothing matches, and an array when a wildcard is used
+ */
+export function evaluateJsonPath(data: unknown, path: string): unknown {
+    const tokens = parseJsonPath(path);
+    let values: unknown[] = [data];
+
+    for (const token of tokens) {
+        values = step(values, token);
+        if (values.length === 0) return undefined;
+    }
+
+    return tokens.includes('*') ? values : values[0];
+}
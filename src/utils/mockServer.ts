@@ -0,0 +1,218 @@
+import { AxiosError, type AxiosAdapter, type AxiosResponse } from 'axios';
+import type { MockSettings } from '../types';
+import { firstExample, resolveRefs, sampleFromSchema, type OpenAPIExamples, type OpenAPISchema } from './openApiSchema';
+
+interface OpenAPIMediaType {
+    schema?: OpenAPISchema;
+    example?: unknown;
+    examples?: OpenAPIExamples;
+}
+
+interface OpenAPIResponse {
+    content?: Record<string, OpenAPIMediaType>;
+}
+
+interface OpenAPIOperation {
+    responses?: Record<string, OpenAPIResponse | { $ref: string }>;
+}
+
+// A mock answer, before it is wrapped as an axios response
+export interface MockAnswer {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    // Text of the body (JSON is serialized, as a server would send it)
+    data: string;
+}
+
+const STATUS_TEXTS: Record<number, string> = {
+    200: 'OK',
+    201: 'Created',
+    202: 'Accepted',
+    204: 'No Content',
+    400: 'Bad Request',
+    401: 'Unauthorized',
+    403: 'Forbidden',
+    404: 'Not Found',
+    405: 'Method Not Allowed',
+    409: 'Conflict',
+    422: 'Unprocessable Entity',
+    500: 'Internal Server Error',
+    503: 'Service Unavailable',
+};
+
+const OPERATION_KEYS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Decode a path segment; a malformed escape such as %E0 stays as it was
+ */
+function decodeSegment(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Match a request path against the spec's path templates, e.g. /users/42 against /users/{id}
+ * Templates with fewer parameters win, so /users/me beats /users/{id}
+ */
+export function matchPath(paths: string[], requestPath: string): { path: string; params: Record<string, string> } | null {
+    const candidates = [...paths].sort((a, b) => (a.match(/\{/g)?.length ?? 0) - (b.match(/\{/g)?.length ?? 0));
+    const normalized = requestPath.replace(/\/+$/, '') || '/';
+
+    for (const path of candidates) {
+        const names: string[] = [];
+        const pattern = path
+            .replace(/\/+$/, '')
+            .split(/(\{[^}]+\})/)
+            .map((part) => {
+                const param = part.match(/^\{([^}]+)\}$/);
+                if (!param) return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+                names.push(param[1]);
+                return '([^/]+)';
+            })
+            .join('');
+
+        const match = normalized.match(new RegExp(`^${pattern || '/'}$`));
+        if (match) {
+            const params = Object.fromEntries(names.map((name, i) => [name, decodeSegment(match[i + 1])]));
+            return { path, params };
+        }
+    }
+    return null;
+}
+
+/**
+ * The status code a declared response key stands for: 2XX → 200, default → 200 (or 500 for errors)
+ */
+function toStatus(key: string, error: boolean): number {
+    if (/^\d{3}$/.test(key)) return Number(key);
+    if (/^\dXX$/i.test(key)) return Number(key[0]) * 100;
+    return error ? 500 : 200;
+}
+
+/**
+ * Pick the declared response to answer with: the lowest success code, or for an
+ * injected error the first declared 5XX, else 4XX, else default
+ */
+function pickResponse(keys: string[], error: boolean): string | undefined {
+    const sorted = [...keys].sort();
+    if (error) {
+        return sorted.find((key) => key.startsWith('5'))
+            ?? sorted.find((key) => key.startsWith('4'))
+            ?? keys.find((key) => key === 'default');
+    }
+    return sorted.find((key) => key.startsWith('2'))
+        ?? keys.find((key) => key === 'default')
+        ?? sorted.find((key) => key.startsWith('3'));
+}
+
+/**
+ * Put path parameter values into the sample where a top-level property has the same name,
+ * so GET /users/42 answers with id 42
+ */
+function applyPathParams(sample: unknown, params: Record<string, string>): unknown {
+    if (!sample || typeof sample !== 'object' || Array.isArray(sample)) return sample;
+
+    const result = { ...(sample as Record<string, unknown>) };
+    for (const [name, value] of Object.entries(params)) {
+        if (!(name in result)) continue;
+        const numeric = Number(value);
+        result[name] = typeof result[name] === 'number' && !Number.isNaN(numeric) ? numeric : value;
+    }
+    return result;
+}
+
+function answer(status: number, body: unknown, contentType = 'application/json'): MockAnswer {
+    const isText = typeof body === 'string' && !/json/i.test(contentType);
+    return {
+        status,
+        statusText: STATUS_TEXTS[status] ?? '',
+        headers: body === undefined ? {} : { 'content-type': contentType },
+        data: body === undefined ? '' : isText ? body as string : JSON.stringify(body),
+    };
+}
+
+/**
+ * Answer a request from a spec: the route is matched with path parameters, and the body
+ * comes from the declared response's example(s), else a sample built from its schema
+ * `error` answers with a declared error response (or a generic 500) instead
+ */
+export function mockResponse(document: unknown, method: string, path: string, error = false): MockAnswer {
+    if (!document) return answer(404, { error: 'No imported spec to answer from' });
+
+    const paths = (document as { paths?: Record<string, Record<string, unknown>> }).paths || {};
+    const route = matchPath(Object.keys(paths), path);
+    if (!route) {
+        return answer(404, { error: `No mock for ${method.toUpperCase()} ${path}: the spec has no matching path` });
+    }
+
+    const pathItem = resolveRefs<Record<string, unknown>>(paths[route.path], document) || {};
+    const operation = pathItem[method.toLowerCase()] as OpenAPIOperation | undefined;
+    if (!operation) {
+        const allowed = OPERATION_KEYS.filter((key) => key in pathItem).map((key) => key.toUpperCase());
+        return {
+            ...answer(405, { error: `${route.path} has no ${method.toUpperCase()} operation` }),
+            ...(allowed.length > 0 ? { headers: { 'content-type': 'application/json', allow: allowed.join(', ') } } : {}),
+        };
+    }
+
+    const responses = operation.responses || {};
+    const key = pickResponse(Object.keys(responses), error);
+    if (!key) {
+        return error ? answer(500, { error: 'Injected mock error' }) : answer(200, undefined);
+    }
+
+    const status = toStatus(key, error);
+    const response = resolveRefs<OpenAPIResponse>(responses[key], document);
+    const content = Object.entries(response?.content || {});
+    // JSON is preferred when the response offers several media types
+    const [contentType, media] = content.find(([type]) => /json/i.test(type)) ?? content[0] ?? [];
+    if (!media || status === 204) return answer(status, undefined);
+
+    const declared = media.example ?? firstExample(media.examples, document);
+    const sample = declared ?? sampleFromSchema(media.schema, document);
+    return answer(status, applyPathParams(sample, route.params), contentType);
+}
+
+/**
+ * The part of a request URL below the base URL, e.g. /users/42 for https://api.example.com/v1/users/42
+ */
+export function pathBelowBase(url: string, baseUrl: string): string {
+    const parse = (value: string) => new URL(value, 'http://localhost');
+    const requestPath = parse(url).pathname;
+    const basePath = parse(baseUrl).pathname.replace(/\/+$/, '');
+
+    // Only whole segments count: /v10/users is not below /v1
+    const below = requestPath === basePath || requestPath.startsWith(basePath + '/');
+    return below ? requestPath.slice(basePath.length) || '/' : requestPath;
+}
+
+/**
+ * An axios adapter that answers from the spec without touching the network
+ * Latency and error injection follow the base URL block's mock settings
+ */
+export function createMockAdapter(document: unknown, baseUrl: string, settings: MockSettings, random: () => number = Math.random): AxiosAdapter {
+    return async (config) => {
+        if (settings.latency && settings.latency > 0) {
+            await new Promise((resolve) => setTimeout(resolve, settings.latency));
+        }
+
+        const error = !!settings.errorRate && random() * 100 < settings.errorRate;
+        const mock = mockResponse(document, config.method || 'get', pathBelowBase(config.url || '', baseUrl), error);
+
+        const response: AxiosResponse = { ...mock, config, request: {} };
+        // Non-2xx answers reject, as they do from a real server
+        if (!config.validateStatus || config.validateStatus(mock.status)) return response;
+
+        throw new AxiosError(
+            `Request failed with status code ${mock.status}`,
+            mock.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+            config,
+            response.request,
+            response
+        );
+    };
+}
@@ -0,0 +1,279 @@
+import { stringify as stringifyYaml } from 'yaml';
+import type { ApiBlock, BlockData, BodyField, ServerOption } from '../types';
+import { findPathParams } from './template';
+import { getContentType } from './requestBody';
+
+export type OpenAPIVersion = '3.0' | '3.1';
+export type SpecFormat = 'yaml' | 'json';
+
+export interface ExportOptions {
+    version: OpenAPIVersion;
+    title?: string;
+    // Current variable values, used as defaults for server variables
+    variables?: Record<string, string>;
+}
+
+// Headers that OpenAPI describes elsewhere (content types, security schemes)
+const IGNORED_HEADERS = ['content-type', 'accept', 'authorization'];
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Turn {{name}} placeholders into OpenAPI {name} templates
+ */
+function toTemplate(value: string): string {
+    return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, '{$1}');
+}
+
+/**
+ * Build a server entry; {{name}} placeholders become server variables
+ * A server imported from a spec keeps its description and variable enums
+ */
+function toServer(baseUrl: string, variables: Record<string, string>, imported?: ServerOption): JsonObject {
+    const url = toTemplate(baseUrl);
+    const names = findPathParams(url);
+    const server: JsonObject = { url };
+    if (imported?.description) server.description = imported.description;
+
+    if (names.length > 0) {
+        server.variables = Object.fromEntries(
+            names.map((name) => {
+                const variable: JsonObject = { default: variables[name] ?? imported?.variables?.[name]?.default ?? '' };
+                const declared = imported?.variables?.[name];
+                if (declared?.enum) variable.enum = declared.enum;
+                if (declared?.description) variable.description = declared.description;
+                return [name, variable];
+            })
+        );
+    }
+
+    return server;
+}
+
+/**
+ * Build a JSON schema for a body field
+ * Typed fields use their type; untyped ones (headers, older bodies) infer it from the string value
+ */
+function inferSchema(field: BodyField, version: OpenAPIVersion): JsonObject {
+    if (field.type === 'object') {
+        const children = (field.children || []).filter((child) => child.key);
+        return {
+            type: 'object',
+            properties: Object.fromEntries(children.map((child) => [child.key, inferSchema(child, version)])),
+        };
+    }
+    if (field.type === 'array') {
+        const [first] = field.children || [];
+        return { type: 'array', items: first ? inferSchema(first, version) : {} };
+    }
+    if (field.type === 'null') {
+        return version === '3.1' ? { type: 'null' } : { nullable: true };
+    }
+
+    const { value } = field;
+    const isBoolean = field.type ? field.type === 'boolean' : value === 'true' || value === 'false';
+    const isNumber = field.type ? field.type === 'number' : value !== '' && !Number.isNaN(Number(value));
+    let schema: JsonObject;
+    let example: unknown = value;
+
+    if (isBoolean) {
+        schema = { type: 'boolean' };
+        example = value === 'true';
+    } else if (isNumber) {
+        schema = { type: Number.isInteger(Number(value)) ? 'integer' : 'number' };
+        example = Number(value);
+    } else {
+        schema = { type: 'string' };
+    }
+
+    // Templated values ({{token}}) are not meaningful examples
+    if (value === '' || value.includes('{{') || Number.isNaN(example)) return schema;
+
+    return version === '3.1'
+        ? { ...schema, examples: [example] }
+        : { ...schema, example };
+}
+
+/**
+ * Describe a method block's body under the media type of its body type
+ */
+function buildRequestBody(data: BlockData, version: OpenAPIVersion): JsonObject | null {
+    const bodyType = data.bodyType || 'json';
+    let schema: JsonObject;
+
+    if (bodyType === 'json') {
+        const bodyFields = (data.bodyFields || []).filter((field) => field.key);
+        if (bodyFields.length === 0) return null;
+
+        schema = {
+            type: 'object',
+            properties: Object.fromEntries(bodyFields.map((field) => [field.key, inferSchema(field, version)])),
+        };
+    } else if (bodyType === 'form' || bodyType === 'multipart') {
+        const formFields = (data.formFields || []).filter((field) => field.key);
+        if (formFields.length === 0) return null;
+
+        schema = {
+            type: 'object',
+            properties: Object.fromEntries(formFields.map((field) => [
+                field.key,
+                bodyType === 'multipart' && field.isFile
+                    ? { type: 'string', format: 'binary' }
+                    : inferSchema({ key: field.key, value: field.value }, version),
+            ])),
+        };
+    } else {
+        if (!data.rawBody) return null;
+        schema = { type: 'string' };
+    }
+
+    return {
+        required: true,
+        content: { [getContentType(bodyType)]: { schema } },
+    };
+}
+
+function buildOperation(chain: ApiBlock[], pathParams: string[], version: OpenAPIVersion): JsonObject {
+    const methodNode = chain[chain.length - 1];
+    const { data } = methodNode;
+    const parameters: JsonObject[] = [];
+
+    for (const name of pathParams) {
+        // Imported resource blocks remember the spec type of their parameters
+        const info = chain.find((node) => node.data.type === 'resource' && node.data.pathParams?.[name])?.data.pathParams?.[name];
+        parameters.push({
+            name,
+            in: 'path',
+            required: true,
+            ...(info?.description ? { description: info.description } : {}),
+            schema: { type: info?.type || 'string' },
+        });
+    }
+
+    for (const node of chain) {
+        if (node.data.type !== 'query') continue;
+        for (const param of node.data.queryParams || []) {
+            if (!param.key || parameters.some((p) => p.name === param.key && p.in === 'query')) continue;
+            parameters.push({
+                name: param.key,
+                in: 'query',
+                required: !!param.required,
+                schema: inferSchema({ key: param.key, value: param.value }, version),
+            });
+        }
+    }
+
+    for (const header of data.headers || []) {
+        if (!header.key || IGNORED_HEADERS.includes(header.key.toLowerCase())) continue;
+
+        // A Cookie header is described as one cookie parameter per name=value pair
+        if (header.key.toLowerCase() === 'cookie') {
+            for (const pair of header.value.split(';')) {
+                const [name, ...rest] = pair.split('=');
+                if (!name.trim()) continue;
+                parameters.push({
+                    name: name.trim(),
+                    in: 'cookie',
+                    required: !!header.required,
+                    schema: inferSchema({ key: name.trim(), value: rest.join('=').trim() }, version),
+                });
+            }
+            continue;
+        }
+
+        parameters.push({
+            name: header.key,
+            in: 'header',
+            required: !!header.required,
+            schema: inferSchema({ key: header.key, value: header.value }, version),
+        });
+    }
+
+    const operation: JsonObject = {};
+    if (data.tags && data.tags.length > 0) operation.tags = data.tags;
+    if (parameters.length > 0) operation.parameters = parameters;
+
+    const requestBody = buildRequestBody(data, version);
+    if (requestBody && ['POST', 'PUT', 'PATCH'].includes(data.method || 'GET')) {
+        operation.requestBody = requestBody;
+    }
+
+    if (data.bearerToken) {
+        operation.security = [{ bearerAuth: [] }];
+    }
+
+    operation.responses = {
+        '200': { description: 'Successful response' },
+    };
+
+    return operation;
+}
+
+/**
+ * Build an OpenAPI document from traced canvas paths
+ * Each chain runs from a base URL block to a method block (base URL → resources/queries → method)
+ */
+export function exportOpenAPI(chains: ApiBlock[][], options: ExportOptions): JsonObject {
+    const variables = options.variables || {};
+    const servers: JsonObject[] = [];
+    const paths: Record<string, Record<string, JsonObject>> = {};
+    let usesBearer = false;
+
+    for (const chain of chains) {
+        const baseNode = chain[0];
+        const methodNode = chain[chain.length - 1];
+        if (baseNode?.data.type !== 'baseUrl' || methodNode?.data.type !== 'method') continue;
+
+        // The block's URL first, then the other servers it was imported with
+        const serverOptions = baseNode.data.servers || [];
+        for (const url of [baseNode.data.value, ...serverOptions.map((server) => server.url)]) {
+            if (servers.some((server) => server.url === toTemplate(url))) continue;
+            servers.push(toServer(url, variables, serverOptions.find((server) => server.url === url)));
+        }
+
+        const segments = chain
+            .filter((node) => node.data.type === 'resource')
+            .map((node) => toTemplate(node.data.value).replace(/^\/+|\/+$/g, ''))
+            .filter(Boolean);
+        const path = '/' + segments.join('/');
+        const pathParams = Array.from(new Set(segments.flatMap((segment) => findPathParams(segment))));
+
+        const method = (methodNode.data.method || 'GET').toLowerCase();
+        paths[path] = paths[path] || {};
+
+        // The first chain wins when several base URLs expose the same operation
+        if (paths[path][method]) continue;
+
+        paths[path][method] = buildOperation(chain, pathParams, options.version);
+        if (methodNode.data.bearerToken) usesBearer = true;
+    }
+
+    const document: JsonObject = {
+        openapi: options.version === '3.1' ? '3.1.0' : '3.0.3',
+        info: {
+            title: options.title || 'TLDFetch API',
+            version: '1.0.0',
+        },
+        servers,
+        paths,
+    };
+
+    if (usesBearer) {
+        document.components = {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer' },
+            },
+        };
+    }
+
+    return document;
+}
+
+/**
+ * Serialize an exported document as YAML or JSON
+ */
+export function serializeSpec(document: JsonObject, format: SpecFormat): string {
+    return format === 'yaml'
+        ? stringifyYaml(document)
+        : JSON.stringify(document, null, 2);
+}
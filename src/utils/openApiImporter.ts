@@ -1,36 +1,54 @@
-import { nanoid } from 'nanoid';
 import { parse as parseYaml } from 'yaml';
-import type { ApiBlock, HttpMethod, BodyField } from '../types';
-import type { Edge } from 'reactflow';
+import type { HttpMethod, BodyType, HeaderField, ImportedSpec, PathParamInfo, QueryParam, ServerOption } from '../types';
+import { bodyTypeForContentType, type RequestBodyData } from './requestBody';
+import { DEFAULT_HEADERS } from './requestBuilder';
+import { jsonToFields, type JsonValue } from './bodyFields';
+import {
+    declaredSample,
+    firstExample,
+    resolveRefs,
+    resolveSchema,
+    sampleFromSchema,
+    schemaType,
+    type OpenAPIExamples,
+    type OpenAPISchema,
+} from './openApiSchema';
+import { convertSwagger2, isSwagger2 } from './swaggerConverter';
+import { layoutEndpointTree } from './importLayout';
+import type { EndpointSpec, ImportResult } from './importLayout';
 
 // OpenAPI Types (simplified for our needs)
-interface OpenAPISchema {
-    type?: string;
-    properties?: Record<string, OpenAPISchema>;
-    required?: string[];
-    items?: OpenAPISchema;
-    $ref?: string;
+interface OpenAPIMediaType {
+    schema?: OpenAPISchema;
+    example?: unknown;
+    examples?: OpenAPIExamples;
 }
 
 interface OpenAPIRequestBody {
-    content?: {
-        'application/json'?: {
-            schema?: OpenAPISchema;
-        };
-    };
+    // Keyed by media type, e.g. application/json or multipart/form-data
+    content?: Record<string, OpenAPIMediaType>;
 }
 
+interface OpenAPIParameter {
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie';
+    description?: string;
+    required?: boolean;
+    example?: unknown;
+    examples?: OpenAPIExamples;
+    schema?: OpenAPISchema;
+}
+
+// A parameter, or a reference to one in #/components/parameters
+type OpenAPIParameterOrRef = OpenAPIParameter | { $ref: string };
+
 interface OpenAPIOperation {
     summary?: string;
     operationId?: string;
     tags?: string[];
-    parameters?: Array<{
-        name: string;
-        in: 'path' | 'query' | 'header';
-        required?: boolean;
-        schema?: OpenAPISchema;
-    }>;
-    requestBody?: OpenAPIRequestBody;
+    parameters?: OpenAPIParameterOrRef[];
+    // Inline, or a reference into #/components/requestBodies
+    requestBody?: OpenAPIRequestBody | { $ref: string };
 }
 
 interface OpenAPIPathItem {
@@ -39,6 +57,15 @@ interface OpenAPIPathItem {
     put?: OpenAPIOperation;
     delete?: OpenAPIOperation;
     patch?: OpenAPIOperation;
+    // Shared by every operation of the path; operations can override them
+    parameters?: OpenAPIParameterOrRef[];
+}
+
+interface OpenAPIServer {
+    // May be relative, and may hold {name} server variables
+    url: string;
+    description?: string;
+    variables?: Record<string, { default?: string; enum?: string[]; description?: string }>;
 }
 
 interface OpenAPISpec {
@@ -48,260 +75,304 @@ interface OpenAPISpec {
         version?: string;
         description?: string;
     };
-    servers?: Array<{ url: string }>;
+    servers?: OpenAPIServer[];
     paths?: Record<string, OpenAPIPathItem>;
     components?: {
         schemas?: Record<string, OpenAPISchema>;
+        parameters?: Record<string, OpenAPIParameterOrRef>;
+        requestBodies?: Record<string, OpenAPIRequestBody | { $ref: string }>;
     };
 }
 
-// Layout constants - generous spacing for readability
-const LAYOUT = {
-    BASE_URL_X: 100,
-    BASE_URL_Y: 300,
-    RESOURCE_START_X: 400,
-    RESOURCE_SPACING_X: 280,
-    PATH_SPACING_Y: 220,
-    METHOD_OFFSET_X: 80,
-    METHOD_SPACING_Y: 90,
-};
-
-// Result type
-export interface ImportResult {
-    nodes: ApiBlock[];
-    edges: Edge[];
-    stats: {
-        endpoints: number;
-        baseUrl: string;
-        paths: number;
-    };
-}
+// Result type (shared with the other importers)
+export type { ImportResult };
+
 
 /**
- * Resolve a $ref to get the actual schema
+ * Collect the parameters of an operation: path-level ones first, replaced by
+ * operation-level ones with the same name and location
  */
-function resolveRef(ref: string, spec: OpenAPISpec): OpenAPISchema | undefined {
-    // Parse refs like "#/components/schemas/post"
-    const match = ref.match(/^#\/components\/schemas\/(.+)$/);
-    if (match && spec.components?.schemas) {
-        return spec.components.schemas[match[1]];
+function collectParameters(pathItem: OpenAPIPathItem, operation: OpenAPIOperation, spec: OpenAPISpec): OpenAPIParameter[] {
+    const byKey = new Map<string, OpenAPIParameter>();
+
+    for (const param of [...(pathItem.parameters || []), ...(operation.parameters || [])]) {
+        const resolved = resolveRefs<OpenAPIParameter>(param, spec);
+        if (resolved?.name) byKey.set(`${resolved.in}:${resolved.name}`, resolved);
     }
-    return undefined;
+    return Array.from(byKey.values());
 }
 
 /**
- * Extract body fields from OpenAPI request body schema
+ * A sample value as form, query or header text
  */
-function extractBodyFields(requestBody: OpenAPIRequestBody | undefined, spec: OpenAPISpec): BodyField[] {
-    let schema = requestBody?.content?.['application/json']?.schema;
-    if (!schema) return [];
-
-    // Resolve $ref if present
-    if (schema.$ref) {
-        schema = resolveRef(schema.$ref, spec);
-        if (!schema) return [];
-    }
+function toText(sample: unknown): string {
+    if (sample === undefined || sample === null) return '';
+    return typeof sample === 'object' ? JSON.stringify(sample) : String(sample);
+}
 
-    if (!schema.properties) return [];
+/**
+ * Sample value of a parameter as text: its example(s), else what its schema declares (default, enum)
+ * Parameters that declare nothing stay empty, so required ones are flagged as missing before sending
+ */
+function sampleValue(param: OpenAPIParameter, spec: OpenAPISpec): string {
+    const declared = param.example ?? firstExample(param.examples, spec) ?? declaredSample(resolveSchema(param.schema, spec));
+    return toText(declared);
+}
 
-    const fields: BodyField[] = [];
+// Body types in order of preference when an operation accepts several media types
+const BODY_TYPE_PREFERENCE: BodyType[] = ['json', 'form', 'multipart', 'xml', 'text'];
 
-    for (const key of Object.keys(schema.properties)) {
-        // Skip complex nested objects/arrays for now, just add the key
-        fields.push({
-            key,
-            value: '', // Empty default value
-        });
-    }
+/**
+ * Pick the media type to build the body from, preferring JSON
+ */
+function pickMediaType(requestBody: OpenAPIRequestBody | undefined): { bodyType: BodyType; media: OpenAPIMediaType } | null {
+    const entries = Object.entries(requestBody?.content || {});
 
-    return fields;
+    for (const bodyType of BODY_TYPE_PREFERENCE) {
+        const entry = entries.find(([contentType]) => bodyTypeForContentType(contentType) === bodyType);
+        if (entry) return { bodyType, media: entry[1] };
+    }
+    return null;
 }
 
 /**
- * Parse a path string into segments
- * e.g., "/users/{userId}/orders" → ["users", "{userId}", "orders"]
+ * Extract the request body, in the body type of its preferred media type
+ * Values come from the media type's example(s), else a sample built from its schema
  */
-function parsePathSegments(path: string): string[] {
-    return path
-        .split('/')
-        .filter((segment) => segment.length > 0);
+function extractRequestBody(requestBodyOrRef: OpenAPIOperation['requestBody'], spec: OpenAPISpec): RequestBodyData {
+    const picked = pickMediaType(resolveRefs<OpenAPIRequestBody>(requestBodyOrRef, spec));
+    if (!picked) return {};
+
+    const { bodyType, media } = picked;
+    const example = media.example ?? firstExample(media.examples, spec);
+    const sample = (example ?? sampleFromSchema(media.schema, spec)) as JsonValue;
+
+    switch (bodyType) {
+        case 'json':
+            // Only objects map to fields; other JSON (arrays, scalars) is kept as text
+            if (sample && typeof sample === 'object' && !Array.isArray(sample)) {
+                const bodyFields = jsonToFields(sample);
+                return bodyFields.length > 0 ? { bodyType, bodyFields } : {};
+            }
+            return sample === null ? {} : { bodyType: 'text', rawBody: JSON.stringify(sample, null, 2) };
+        case 'form':
+        case 'multipart': {
+            const schema = resolveSchema(media.schema, spec);
+            const values = sample && typeof sample === 'object' && !Array.isArray(sample) ? sample : {};
+
+            return {
+                bodyType,
+                formFields: Object.entries(schema.properties || {}).map(([key, property]) => {
+                    const resolved = resolveSchema(property, spec);
+                    // Binary properties are file uploads
+                    if (bodyType === 'multipart' && schemaType(resolved) === 'string' && resolved.format === 'binary') {
+                        return { key, value: '', isFile: true };
+                    }
+                    return { key, value: toText(values[key]) };
+                }),
+            };
+        }
+        default:
+            return { bodyType, rawBody: typeof sample === 'string' ? sample : '' };
+    }
 }
 
 /**
- * Build a tree structure from paths to share common prefixes
+ * Extract query rows from an operation's query parameters
+ * Required parameters start enabled, optional ones start disabled so they are not sent empty
  */
-interface PathNode {
-    segment: string;
-    children: Map<string, PathNode>;
-    methods: Array<{ method: HttpMethod; operation: OpenAPIOperation }>;
-    fullPath: string;
+function extractQueryParams(params: OpenAPIParameter[], spec: OpenAPISpec): QueryParam[] {
+    return params
+        .filter((param) => param.in === 'query')
+        .map((param) => ({
+            key: param.name,
+            value: sampleValue(param, spec),
+            enabled: !!param.required,
+            ...(param.required ? { required: true } : {}),
+        }));
 }
 
-function buildPathTree(paths: Record<string, OpenAPIPathItem>): PathNode {
-    const root: PathNode = {
-        segment: '',
-        children: new Map(),
-        methods: [],
-        fullPath: '',
-    };
+/**
+ * Extract method block headers from header and cookie parameters
+ * Cookie parameters share one Cookie header; optional cookies without a sample are left out
+ */
+function extractHeaders(params: OpenAPIParameter[], spec: OpenAPISpec): HeaderField[] {
+    const headers: HeaderField[] = params
+        .filter((param) => param.in === 'header')
+        .map((param) => ({
+            key: param.name,
+            value: sampleValue(param, spec),
+            ...(param.required ? { required: true } : {}),
+        }));
+
+    const cookies = params.filter((param) => param.in === 'cookie' && (param.required || sampleValue(param, spec)));
+    if (cookies.length > 0) {
+        headers.push({
+            key: 'Cookie',
+            value: cookies.map((param) => `${param.name}=${sampleValue(param, spec)}`).join('; '),
+            ...(cookies.some((param) => param.required) ? { required: true } : {}),
+        });
+    }
 
-    for (const [path, pathItem] of Object.entries(paths)) {
-        const segments = parsePathSegments(path);
-        let current = root;
-        let currentPath = '';
-
-        for (const segment of segments) {
-            currentPath += '/' + segment;
-
-            if (!current.children.has(segment)) {
-                current.children.set(segment, {
-                    segment,
-                    children: new Map(),
-                    methods: [],
-                    fullPath: currentPath,
-                });
-            }
-            current = current.children.get(segment)!;
-        }
+    return headers;
+}
 
-        // Add methods to the leaf node
-        const httpMethods: Array<{ key: keyof OpenAPIPathItem; method: HttpMethod }> = [
-            { key: 'get', method: 'GET' },
-            { key: 'post', method: 'POST' },
-            { key: 'put', method: 'PUT' },
-            { key: 'delete', method: 'DELETE' },
-            { key: 'patch', method: 'PATCH' },
-        ];
-
-        for (const { key, method } of httpMethods) {
-            if (pathItem[key]) {
-                current.methods.push({ method, operation: pathItem[key]! });
-            }
-        }
+/**
+ * Extract the type and required flag of each path parameter, keyed by name
+ */
+function extractPathParams(params: OpenAPIParameter[], spec: OpenAPISpec): Record<string, PathParamInfo> {
+    const pathParams: Record<string, PathParamInfo> = {};
+
+    for (const param of params) {
+        if (param.in !== 'path') continue;
+        pathParams[param.name] = {
+            type: schemaType(resolveSchema(param.schema, spec)),
+            // Path parameters are always required in OpenAPI
+            required: true,
+            description: param.description,
+        };
     }
+    return pathParams;
+}
 
-    return root;
+const HTTP_METHODS: Array<{ key: Exclude<keyof OpenAPIPathItem, 'parameters'>; method: HttpMethod }> = [
+    { key: 'get', method: 'GET' },
+    { key: 'post', method: 'POST' },
+    { key: 'put', method: 'PUT' },
+    { key: 'delete', method: 'DELETE' },
+    { key: 'patch', method: 'PATCH' },
+];
+
+const DEFAULT_BASE_URL = 'http://localhost:3000';
+
+// The requests a spec describes, before they are laid out as blocks
+export interface SpecEndpoints {
+    // URL of the first server
+    baseUrl: string;
+    // Every server, with server variables as {{name}} placeholders
+    servers: ServerOption[];
+    // Default value of each server variable
+    variables: Record<string, string>;
+    endpoints: EndpointSpec[];
+    // Number of paths in the spec
+    paths: number;
+    // The spec as OpenAPI 3.x, to keep with the workspace
+    document: OpenAPISpec;
 }
 
 /**
- * Convert OpenAPI spec to TLDFetch nodes and edges
+ * Resolve a relative server URL (e.g. "/v1", or a Swagger 2.0 basePath without host) against the default host
+ * Braces of server variables survive the URL parser's encoding
+ */
+function resolveServerUrl(url: string): string {
+    if (/^[a-z][a-z\d+.-]*:\/\//i.test(url) || url.startsWith('{')) return url.replace(/\/+$/, '');
+
+    const resolved = new URL(url, DEFAULT_BASE_URL + '/').href
+        .replace(/%7B/gi, '{')
+        .replace(/%7D/gi, '}');
+    return resolved.replace(/\/+$/, '');
+}
+
+/**
+ * Read the spec's servers: relative URLs resolved and {name} variables turned into {{name}} placeholders
+ * Falls back to the default host when the spec lists none
  */
-export function importOpenAPI(spec: OpenAPISpec): ImportResult {
-    const nodes: ApiBlock[] = [];
-    const edges: Edge[] = [];
-
-    // Get base URL
-    const baseUrl = spec.servers?.[0]?.url || 'http://localhost:3000';
-
-    // Create base URL node
-    const baseUrlId = nanoid();
-    nodes.push({
-        id: baseUrlId,
-        type: 'baseUrl',
-        position: { x: LAYOUT.BASE_URL_X, y: LAYOUT.BASE_URL_Y },
-        data: { type: 'baseUrl', value: baseUrl },
+function extractServers(spec: OpenAPISpec): { servers: ServerOption[]; variables: Record<string, string> } {
+    const variables: Record<string, string> = {};
+    const servers = (spec.servers || []).filter((server) => server.url).map((server) => {
+        const declared = server.variables || {};
+        const option: ServerOption = {
+            url: resolveServerUrl(server.url).replace(/(?<!\{)\{([\w.-]+)\}(?!\})/g, (match, name: string) =>
+                name in declared ? `{{${name}}}` : match
+            ),
+        };
+        if (server.description) option.description = server.description;
+
+        if (Object.keys(declared).length > 0) {
+            option.variables = {};
+            for (const [name, variable] of Object.entries(declared)) {
+                const value = variable.default ?? variable.enum?.[0] ?? '';
+                option.variables[name] = {
+                    default: value,
+                    ...(variable.enum ? { enum: variable.enum.map(String) } : {}),
+                    ...(variable.description ? { description: variable.description } : {}),
+                };
+                // The first server declaring a variable sets its default
+                if (!(name in variables)) variables[name] = value;
+            }
+        }
+        return option;
     });
 
-    // Build path tree
-    const pathTree = buildPathTree(spec.paths || {});
-
-    // Track created nodes to share resources
-    const resourceNodeMap = new Map<string, string>(); // fullPath → nodeId
-    let totalEndpoints = 0;
-
-    // Recursively create nodes from tree
-    function processNode(
-        node: PathNode,
-        parentId: string,
-        depth: number,
-        yOffset: number
-    ): number {
-        let currentY = yOffset;
-
-        for (const [segment, child] of node.children) {
-            const nodeId = nanoid();
-            const isParam = segment.startsWith('{') && segment.endsWith('}');
-
-            // Calculate position
-            const x = LAYOUT.RESOURCE_START_X + (depth * LAYOUT.RESOURCE_SPACING_X);
-            const y = currentY;
-
-            // Create resource node
-            nodes.push({
-                id: nodeId,
-                type: 'resource',
-                position: { x, y },
+    return { servers: servers.length > 0 ? servers : [{ url: DEFAULT_BASE_URL }], variables };
+}
+
+/**
+ * Read the base URL and endpoints of a spec
+ * Swagger 2.0 documents are converted to the 3.x model first. With a `specId`,
+ * method blocks link to their operation so responses can be checked against it
+ */
+export function extractEndpoints(source: OpenAPISpec, specId?: string): SpecEndpoints {
+    const spec = isSwagger2(source) ? convertSwagger2(source) as OpenAPISpec : source;
+
+    // The first server is the base URL; the others can be switched to on the block
+    const { servers, variables } = extractServers(spec);
+    const baseUrl = servers[0].url;
+
+    const endpoints: EndpointSpec[] = [];
+    for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+        for (const { key, method } of HTTP_METHODS) {
+            const operation = pathItem[key];
+            if (!operation) continue;
+
+            const params = collectParameters(pathItem, operation, spec);
+            const headers = extractHeaders(params, spec);
+
+            endpoints.push({
+                path,
+                method,
+                queryParams: extractQueryParams(params, spec),
+                pathParams: extractPathParams(params, spec),
                 data: {
-                    type: 'resource',
-                    value: segment,
-                    isParam,
+                    ...extractRequestBody(operation.requestBody, spec),
+                    // Spec headers come after the default Content-Type
+                    ...(headers.length > 0 ? { headers: [...DEFAULT_HEADERS, ...headers] } : {}),
+                    tags: operation.tags,
+                    ...(specId ? { operation: { specId, path, method } } : {}),
                 },
             });
+        }
+    }
 
-            // Connect to parent
-            edges.push({
-                id: nanoid(),
-                source: parentId,
-                target: nodeId,
-            });
-
-            // Store for reference
-            resourceNodeMap.set(child.fullPath, nodeId);
-
-            // Create method nodes for this resource
-            let methodY = y;
-            for (const { method, operation } of child.methods) {
-                const methodId = nanoid();
-                const bodyFields = extractBodyFields(operation.requestBody, spec);
-
-                nodes.push({
-                    id: methodId,
-                    type: 'method',
-                    position: {
-                        x: x + LAYOUT.RESOURCE_SPACING_X + LAYOUT.METHOD_OFFSET_X,
-                        y: methodY,
-                    },
-                    data: {
-                        type: 'method',
-                        value: '',
-                        method,
-                        bodyFields: bodyFields.length > 0 ? bodyFields : undefined,
-                    },
-                });
-
-                edges.push({
-                    id: nanoid(),
-                    source: nodeId,
-                    target: methodId,
-                });
-
-                methodY += LAYOUT.METHOD_SPACING_Y;
-                totalEndpoints++;
-            }
+    return { baseUrl, servers, variables, endpoints, paths: Object.keys(spec.paths || {}).length, document: spec };
+}
 
-            // Calculate space needed for children
-            const methodsHeight = Math.max(
-                child.methods.length * LAYOUT.METHOD_SPACING_Y,
-                LAYOUT.PATH_SPACING_Y
-            );
-
-            // Process children recursively
-            const childrenHeight = processNode(
-                child,
-                nodeId,
-                depth + 1,
-                currentY
-            );
-
-            // Move Y for next sibling
-            currentY += Math.max(methodsHeight, childrenHeight, LAYOUT.PATH_SPACING_Y);
-        }
+/**
+ * Base URL block data for a spec's servers: the list is kept when there is something to pick
+ */
+export function serverBlockData(servers: ServerOption[]): { servers?: ServerOption[] } {
+    return servers.length > 1 || servers.some((server) => server.variables) ? { servers } : {};
+}
 
-        return currentY - yOffset;
-    }
+/**
+ * The spec to keep with the workspace, under a new id
+ */
+export function createImportedSpec(id: string, document: OpenAPISpec): ImportedSpec {
+    return {
+        id,
+        title: document.info?.title || 'Untitled API',
+        document,
+        importedAt: Date.now(),
+    };
+}
 
-    // Start processing from root
-    processNode(pathTree, baseUrlId, 0, LAYOUT.BASE_URL_Y - 100);
+/**
+ * Convert OpenAPI spec to TLDFetch nodes and edges
+ * Method blocks link to their operation in the returned spec, stored under `specId`
+ */
+export function importOpenAPI(source: OpenAPISpec, specId: string): ImportResult & { spec: ImportedSpec } {
+    const { baseUrl, servers, variables, endpoints, paths, document } = extractEndpoints(source, specId);
+    const { nodes, edges, endpoints: totalEndpoints } = layoutEndpointTree(baseUrl, endpoints, undefined, serverBlockData(servers));
 
     return {
         nodes,
@@ -309,8 +380,10 @@ export function importOpenAPI(spec: OpenAPISpec): ImportResult {
         stats: {
             endpoints: totalEndpoints,
             baseUrl,
-            paths: Object.keys(spec.paths || {}).length,
+            paths,
         },
+        variables,
+        spec: createImportedSpec(specId, document),
     };
 }
 
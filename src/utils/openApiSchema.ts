@@ -0,0 +1,209 @@
+import type { JsonValue } from './bodyFields';
+
+// JSON Schema as OpenAPI uses it (the parts the importer reads)
+export interface OpenAPISchema {
+    // A list of types in OpenAPI 3.1, e.g. ['string', 'null']
+    type?: string | string[];
+    format?: string;
+    default?: unknown;
+    example?: unknown;
+    // OpenAPI 3.1 (JSON Schema) examples are a list
+    examples?: unknown[];
+    enum?: unknown[];
+    const?: unknown;
+    nullable?: boolean;
+    properties?: Record<string, OpenAPISchema>;
+    additionalProperties?: boolean | OpenAPISchema;
+    required?: string[];
+    items?: OpenAPISchema;
+    allOf?: OpenAPISchema[];
+    oneOf?: OpenAPISchema[];
+    anyOf?: OpenAPISchema[];
+    $ref?: string;
+}
+
+// Named examples of media types and parameters
+export type OpenAPIExamples = Record<string, { value?: unknown; $ref?: string }>;
+
+// Deeper nesting than this is cut short (self-referencing schemas without a $ref cycle)
+const MAX_SAMPLE_DEPTH = 8;
+
+// Samples for string formats; other strings get "string"
+const FORMAT_SAMPLES: Record<string, string> = {
+    date: '2024-01-01',
+    'date-time': '2024-01-01T00:00:00Z',
+    time: '00:00:00',
+    email: 'user@example.com',
+    uuid: '00000000-0000-0000-0000-000000000000',
+    uri: 'https://example.com',
+    url: 'https://example.com',
+    hostname: 'example.com',
+    ipv4: '127.0.0.1',
+    ipv6: '::1',
+    password: 'password',
+    byte: 'c3RyaW5n',
+    binary: '',
+};
+
+/**
+ * Follow a local JSON pointer (e.g. "#/components/schemas/User") in a document
+ * Returns undefined for refs to other files or missing targets
+ */
+export function resolvePointer<T = unknown>(ref: string, document: unknown): T | undefined {
+    if (!ref.startsWith('#')) return undefined;
+
+    let current: unknown = document;
+    for (const part of ref.slice(1).split('/').filter(Boolean)) {
+        const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+        if (!current || typeof current !== 'object' || !(key in current)) return undefined;
+        current = (current as Record<string, unknown>)[key];
+    }
+    return current as T;
+}
+
+/**
+ * Follow $refs until an object without one, e.g. a request body in #/components/requestBodies
+ * Returns undefined when a ref points nowhere or loops
+ */
+export function resolveRefs<T extends object>(value: T | { $ref: string } | undefined, document: unknown): T | undefined {
+    const seen: string[] = [];
+    let current: unknown = value;
+
+    while (current && typeof current === 'object' && typeof (current as { $ref?: unknown }).$ref === 'string') {
+        const ref = (current as { $ref: string }).$ref;
+        if (seen.includes(ref)) return undefined;
+        seen.push(ref);
+        current = resolvePointer(ref, document);
+    }
+    return current as T | undefined;
+}
+
+/**
+ * The main type of a schema; a 3.1 type list gives its first non-null type
+ */
+export function schemaType(schema: OpenAPISchema): string | undefined {
+    if (Array.isArray(schema.type)) return schema.type.find((type) => type !== 'null') ?? schema.type[0];
+    if (schema.type) return schema.type;
+    // Untyped schemas that describe an object or array
+    if (schema.properties || schema.additionalProperties) return 'object';
+    if (schema.items) return 'array';
+    return undefined;
+}
+
+/**
+ * Resolve a schema's top-level $refs and merge its allOf parts, keeping oneOf/anyOf as they are
+ * `seen` carries the refs already followed, so recursive schemas end
+ */
+export function dereferenceSchema(schema: OpenAPISchema | undefined, document: unknown, seen: string[] = []): OpenAPISchema {
+    if (!schema) return {};
+
+    if (schema.$ref) {
+        if (seen.includes(schema.$ref)) return {};
+        const target = resolvePointer<OpenAPISchema>(schema.$ref, document);
+        // Keywords next to a $ref (allowed in 3.1) refine the target
+        const { $ref, ...siblings } = schema;
+        return dereferenceSchema({ ...target, ...siblings }, document, [...seen, $ref]);
+    }
+
+    if (!schema.allOf) return schema;
+
+    const { allOf, ...rest } = schema;
+    return [...allOf.map((part) => dereferenceSchema(part, document, seen)), rest].reduce(mergeSchemas, {});
+}
+
+/**
+ * Resolve a schema into one without refs at its top level
+ * allOf parts are merged; oneOf/anyOf take their first option. Nested schemas
+ * (properties, items) are left as they are and resolved when read.
+ */
+export function resolveSchema(schema: OpenAPISchema | undefined, document: unknown, seen: string[] = []): OpenAPISchema {
+    const resolved = dereferenceSchema(schema, document, seen);
+
+    const options = resolved.oneOf || resolved.anyOf;
+    if (!options || options.length === 0) return resolved;
+
+    const rest = { ...resolved };
+    delete rest.oneOf;
+    delete rest.anyOf;
+    return mergeSchemas(resolveSchema(options[0], document, seen), rest);
+}
+
+/**
+ * Combine two schemas; properties and required lists are merged, other keywords from `source` win
+ */
+export function mergeSchemas(target: OpenAPISchema, source: OpenAPISchema): OpenAPISchema {
+    return {
+        ...target,
+        ...source,
+        properties: target.properties || source.properties
+            ? { ...target.properties, ...source.properties }
+            : undefined,
+        required: target.required || source.required
+            ? Array.from(new Set([...(target.required || []), ...(source.required || [])]))
+            : undefined,
+    };
+}
+
+/**
+ * The first value of a named examples map (media types, parameters)
+ */
+export function firstExample(examples: OpenAPIExamples | undefined, document: unknown): unknown {
+    for (const example of Object.values(examples || {})) {
+        const resolved = resolveRefs(example, document);
+        if (resolved && resolved.value !== undefined) return resolved.value;
+    }
+    return undefined;
+}
+
+/**
+ * The value a schema documents itself: example, examples, default, const or first enum value
+ */
+export function declaredSample(schema: OpenAPISchema): unknown {
+    if (schema.example !== undefined) return schema.example;
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+    if (schema.default !== undefined) return schema.default;
+    if (schema.const !== undefined) return schema.const;
+    if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+    return undefined;
+}
+
+/**
+ * Build a sample value for a schema
+ * Declared values win; otherwise one is generated from the type and format,
+ * with every property of an object and one item of an array
+ */
+export function sampleFromSchema(schema: OpenAPISchema | undefined, document: unknown, seen: string[] = [], depth = 0): JsonValue {
+    if (!schema || depth > MAX_SAMPLE_DEPTH) return null;
+
+    const nextSeen = schema.$ref ? [...seen, schema.$ref] : seen;
+    const resolved = resolveSchema(schema, document, seen);
+
+    const declared = declaredSample(resolved);
+    if (declared !== undefined) return declared as JsonValue;
+
+    // Recursive properties and items (a tree's children) are left out rather than expanded
+    const isCycle = (child: OpenAPISchema) => !!child.$ref && nextSeen.includes(child.$ref);
+
+    switch (schemaType(resolved)) {
+        case 'object': {
+            const result: Record<string, JsonValue> = {};
+            for (const [key, property] of Object.entries(resolved.properties || {})) {
+                if (!isCycle(property)) result[key] = sampleFromSchema(property, document, nextSeen, depth + 1);
+            }
+            return result;
+        }
+        case 'array':
+            return resolved.items && !isCycle(resolved.items)
+                ? [sampleFromSchema(resolved.items, document, nextSeen, depth + 1)]
+                : [];
+        case 'integer':
+        case 'number':
+            return 0;
+        case 'boolean':
+            return true;
+        case 'string':
+            return FORMAT_SAMPLES[resolved.format || ''] ?? 'string';
+        default:
+            return null;
+    }
+}
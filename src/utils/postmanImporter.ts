@@ -0,0 +1,339 @@
+import type { ApiBlock, HeaderField, HttpMethod, QueryParam } from '../types';
+import type { Edge } from 'reactflow';
+import { LAYOUT, layoutEndpointTree } from './importLayout';
+import type { EndpointSpec, ImportResult } from './importLayout';
+import { jsonToFields } from './bodyFields';
+import type { RequestBodyData } from './requestBody';
+
+// Postman Collection v2.1 types (simplified for our needs)
+interface PostmanKeyValue {
+    key: string;
+    value?: string;
+    disabled?: boolean;
+}
+
+interface PostmanAuth {
+    type: string;
+    // v2.1 stores auth attributes as a list, v2.0 as an object
+    bearer?: PostmanKeyValue[] | { token?: string };
+}
+
+interface PostmanUrl {
+    raw?: string;
+    protocol?: string;
+    host?: string[] | string;
+    port?: string;
+    path?: string[] | string;
+    query?: PostmanKeyValue[];
+    variable?: PostmanKeyValue[];
+}
+
+interface PostmanFormDataField extends PostmanKeyValue {
+    type?: 'text' | 'file';
+    src?: string | string[];
+}
+
+interface PostmanBody {
+    mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+    raw?: string;
+    urlencoded?: PostmanKeyValue[];
+    formdata?: PostmanFormDataField[];
+    options?: {
+        raw?: { language?: 'json' | 'xml' | 'text' | 'html' | 'javascript' };
+    };
+}
+
+interface PostmanRequest {
+    method?: string;
+    header?: PostmanKeyValue[];
+    url?: PostmanUrl | string;
+    body?: PostmanBody;
+    auth?: PostmanAuth;
+}
+
+interface PostmanItem {
+    name?: string;
+    // Folders have items, requests have a request
+    item?: PostmanItem[];
+    request?: PostmanRequest | string;
+    auth?: PostmanAuth;
+}
+
+export interface PostmanCollection {
+    info: {
+        name?: string;
+        schema?: string;
+    };
+    item: PostmanItem[];
+    variable?: PostmanKeyValue[];
+    auth?: PostmanAuth;
+}
+
+// A folder (or the collection root) laid out as one horizontal band
+interface Band {
+    label: string;
+    endpoints: Array<EndpointSpec & { baseUrl: string }>;
+}
+
+const SUPPORTED_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+/**
+ * Collect enabled key/value rows into a plain object
+ */
+function toRecord(rows: PostmanKeyValue[] | undefined): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const row of rows || []) {
+        if (row.key && !row.disabled) record[row.key] = row.value ?? '';
+    }
+    return record;
+}
+
+/**
+ * Rebuild the raw URL string from a Postman URL object
+ */
+function getRawUrl(url: PostmanUrl | string | undefined): string {
+    if (!url) return '';
+    if (typeof url === 'string') return url;
+    if (url.raw) return url.raw;
+
+    const host = Array.isArray(url.host) ? url.host.join('.') : url.host || '';
+    const path = Array.isArray(url.path) ? url.path.join('/') : url.path || '';
+    const protocol = url.protocol ? `${url.protocol}://` : '';
+    const port = url.port ? `:${url.port}` : '';
+
+    return `${protocol}${host}${port}${path ? '/' + path : ''}`;
+}
+
+/**
+ * Split a raw Postman URL into base URL, path and query string
+ * The base URL is a leading {{variable}} or the scheme, host and port
+ * e.g., "{{baseUrl}}/users/:id?page=1" → "{{baseUrl}}", "/users/:id", "page=1"
+ */
+export function splitPostmanUrl(raw: string): { baseUrl: string; path: string; query: string } {
+    const hashIndex = raw.indexOf('#');
+    const withoutHash = hashIndex >= 0 ? raw.slice(0, hashIndex) : raw;
+    const queryIndex = withoutHash.indexOf('?');
+    const location = queryIndex >= 0 ? withoutHash.slice(0, queryIndex) : withoutHash;
+    const query = queryIndex >= 0 ? withoutHash.slice(queryIndex + 1) : '';
+
+    const match =
+        location.match(/^(\{\{[^}]+\}\})(.*)$/) ||
+        location.match(/^([a-z][\w+.-]*:\/\/[^/]+)(.*)$/i) ||
+        location.match(/^([^/]+)(.*)$/);
+
+    return {
+        baseUrl: match ? match[1] : '',
+        path: match ? match[2] : location,
+        query,
+    };
+}
+
+/**
+ * Turn Postman path variables (:id) into resource parameters ({id})
+ */
+function toResourcePath(path: string): string {
+    return path
+        .split('/')
+        .map((segment) => (segment.startsWith(':') && segment.length > 1 ? `{${segment.slice(1)}}` : segment))
+        .join('/');
+}
+
+/**
+ * Read query rows from the URL object, or from the raw query string
+ */
+function extractQueryParams(url: PostmanUrl | string | undefined, rawQuery: string): QueryParam[] {
+    if (url && typeof url !== 'string' && url.query) {
+        return url.query
+            .filter((param) => param.key)
+            .map((param) => ({ key: param.key, value: param.value ?? '', enabled: !param.disabled }));
+    }
+
+    return rawQuery
+        .split('&')
+        .filter(Boolean)
+        .map((pair) => {
+            const [key, ...rest] = pair.split('=');
+            return { key, value: rest.join('='), enabled: true };
+        });
+}
+
+// File name of a form-data file field's source path
+function getFileName(src: string | string[] | undefined): string {
+    const path = Array.isArray(src) ? src[0] : src;
+    return path?.split(/[\\/]/).pop() || '';
+}
+
+/**
+ * Extract the body of a request in its Postman mode
+ * Raw bodies use the language Postman was set to; binary and GraphQL bodies are left out
+ */
+function extractBody(body: PostmanBody | undefined): RequestBodyData {
+    if (!body) return {};
+
+    if (body.mode === 'urlencoded') {
+        return {
+            bodyType: 'form',
+            formFields: (body.urlencoded || [])
+                .filter((field) => field.key && !field.disabled)
+                .map((field) => ({ key: field.key, value: field.value ?? '' })),
+        };
+    }
+
+    if (body.mode === 'formdata') {
+        return {
+            bodyType: 'multipart',
+            formFields: (body.formdata || [])
+                .filter((field) => field.key && !field.disabled)
+                .map((field) => field.type === 'file'
+                    // Files have to be chosen again; keep the name Postman had as a hint
+                    ? { key: field.key, value: getFileName(field.src), isFile: true }
+                    : { key: field.key, value: field.value ?? '' }),
+        };
+    }
+
+    if (body.mode === 'raw' && body.raw) {
+        const language = body.options?.raw?.language;
+        if (language === 'xml' || language === 'html') return { bodyType: 'xml', rawBody: body.raw };
+        if (language === 'text' || language === 'javascript') return { bodyType: 'text', rawBody: body.raw };
+
+        // Postman allows unquoted placeholders ({"id": {{id}}}), quote them so the JSON parses
+        const quoted = body.raw.replace(/(:\s*)(\{\{[^}]+\}\})/g, '$1"$2"');
+        try {
+            const parsed: unknown = JSON.parse(quoted);
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                return { bodyType: 'json', bodyFields: jsonToFields(parsed as Record<string, unknown>) };
+            }
+        } catch {
+            // Not JSON: sent as written
+        }
+        return { bodyType: 'text', rawBody: body.raw };
+    }
+
+    return {};
+}
+
+/**
+ * Get the bearer token of an auth block
+ * Returns null when the block does not decide (missing or inherited), '' when auth is disabled
+ */
+function getBearerToken(auth: PostmanAuth | undefined): string | null {
+    if (!auth) return null;
+    if (auth.type !== 'bearer') return '';
+
+    const { bearer } = auth;
+    if (Array.isArray(bearer)) {
+        return bearer.find((attribute) => attribute.key === 'token')?.value ?? '';
+    }
+    return bearer?.token ?? '';
+}
+
+/**
+ * Walk the collection and gather its requests into bands
+ * Requests at the root share one band, every folder with requests gets its own
+ */
+function collectBands(collection: PostmanCollection, variables: Record<string, string>): Band[] {
+    const bands: Band[] = [];
+
+    function walk(items: PostmanItem[], label: string, inheritedToken: string | null, tags: string[] | undefined) {
+        const band: Band = { label, endpoints: [] };
+        bands.push(band);
+
+        for (const item of items) {
+            const itemToken = getBearerToken(item.auth) ?? inheritedToken;
+
+            if (item.item) {
+                const folderName = item.name || 'Folder';
+                walk(item.item, tags ? `${label} / ${folderName}` : folderName, itemToken, [folderName]);
+                continue;
+            }
+
+            if (!item.request) continue;
+            const request: PostmanRequest = typeof item.request === 'string'
+                ? { url: item.request, method: 'GET' }
+                : item.request;
+
+            const method = (request.method || 'GET').toUpperCase() as HttpMethod;
+            if (!SUPPORTED_METHODS.includes(method)) continue;
+
+            const { baseUrl, path, query } = splitPostmanUrl(getRawUrl(request.url));
+            if (typeof request.url === 'object') {
+                Object.assign(variables, toRecord(request.url.variable));
+            }
+
+            const headers: HeaderField[] = (request.header || [])
+                .filter((header) => header.key && !header.disabled)
+                .map((header) => ({ key: header.key, value: header.value ?? '' }));
+            const token = getBearerToken(request.auth) ?? itemToken;
+
+            band.endpoints.push({
+                baseUrl,
+                path: toResourcePath(path),
+                method,
+                queryParams: extractQueryParams(request.url, query),
+                data: {
+                    headers: headers.length > 0 ? headers : undefined,
+                    ...extractBody(request.body),
+                    bearerToken: token || undefined,
+                    tags,
+                },
+            });
+        }
+    }
+
+    walk(collection.item, collection.info.name || 'Collection', getBearerToken(collection.auth), undefined);
+
+    return bands.filter((band) => band.endpoints.length > 0);
+}
+
+/**
+ * Convert a Postman v2.1 collection to TLDFetch nodes and edges
+ * Each folder becomes a band of base URL trees stacked below the previous one
+ */
+export function importPostman(collection: PostmanCollection): ImportResult {
+    const nodes: ApiBlock[] = [];
+    const edges: Edge[] = [];
+    const variables = toRecord(collection.variable);
+    const paths = new Set<string>();
+    let totalEndpoints = 0;
+    let originY = LAYOUT.BASE_URL_Y - 100;
+
+    for (const band of collectBands(collection, variables)) {
+        // Requests of a band sharing a base URL share one tree
+        const byBaseUrl = new Map<string, EndpointSpec[]>();
+        for (const { baseUrl, ...endpoint } of band.endpoints) {
+            byBaseUrl.set(baseUrl, [...(byBaseUrl.get(baseUrl) || []), endpoint]);
+            paths.add(`${baseUrl}${endpoint.path}`);
+        }
+
+        for (const [baseUrl, endpoints] of byBaseUrl) {
+            const layout = layoutEndpointTree(baseUrl, endpoints, originY, { label: band.label });
+            nodes.push(...layout.nodes);
+            edges.push(...layout.edges);
+            totalEndpoints += layout.endpoints;
+            originY += layout.height;
+        }
+
+        originY += LAYOUT.BAND_SPACING_Y;
+    }
+
+    return {
+        nodes,
+        edges,
+        stats: {
+            endpoints: totalEndpoints,
+            baseUrl: nodes.find((node) => node.data.type === 'baseUrl')?.data.value || '',
+            paths: paths.size,
+        },
+        variables,
+    };
+}
+
+/**
+ * Validate that the parsed file looks like a Postman collection
+ */
+export function validatePostmanCollection(collection: unknown): collection is PostmanCollection {
+    if (!collection || typeof collection !== 'object') return false;
+    const c = collection as Record<string, unknown>;
+
+    return !!c.info && typeof c.info === 'object' && Array.isArray(c.item);
+}
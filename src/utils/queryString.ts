@@ -0,0 +1,95 @@
+import type { QueryParam, QueryArrayStyle } from '../types';
+
+/**
+ * Group enabled query rows by key, keeping the order in which keys first appear
+ */
+function groupParams(params: QueryParam[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+
+    for (const { key, value, enabled } of params) {
+        if (!enabled || !key) continue;
+
+        const values = groups.get(key) || [];
+        values.push(value);
+        groups.set(key, values);
+    }
+
+    return groups;
+}
+
+/**
+ * Serialize query rows into a URL-encoded query string (without the leading "?")
+ * e.g., [{ key: 'tag', value: 'a b' }, { key: 'tag', value: 'c' }]
+ *   repeat   → "tag=a%20b&tag=c"
+ *   comma    → "tag=a%20b,c"
+ *   brackets → "tag[]=a%20b&tag[]=c"
+ */
+export function buildQueryString(params: QueryParam[], style: QueryArrayStyle = 'repeat'): string {
+    const pairs: string[] = [];
+
+    for (const [key, values] of groupParams(params)) {
+        const encodedKey = encodeURIComponent(key);
+
+        if (values.length === 1) {
+            pairs.push(`${encodedKey}=${encodeURIComponent(values[0])}`);
+            continue;
+        }
+
+        if (style === 'comma') {
+            pairs.push(`${encodedKey}=${values.map(encodeURIComponent).join(',')}`);
+        } else {
+            const arrayKey = style === 'brackets' ? `${encodedKey}[]` : encodedKey;
+            for (const value of values) {
+                pairs.push(`${arrayKey}=${encodeURIComponent(value)}`);
+            }
+        }
+    }
+
+    return pairs.join('&');
+}
+
+/**
+ * Merge a query string into a URL, keeping any query or fragment it already has
+ */
+export function appendQueryString(url: string, queryString: string): string {
+    if (!queryString) return url;
+
+    const hashIndex = url.indexOf('#');
+    const base = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+    const hash = hashIndex >= 0 ? url.slice(hashIndex) : '';
+
+    if (!base.includes('?')) {
+        return `${base}?${queryString}${hash}`;
+    }
+
+    const separator = base.endsWith('?') || base.endsWith('&') ? '' : '&';
+    return `${base}${separator}${queryString}${hash}`;
+}
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Parse "a=1&b=2" pairs into rows
+ */
+export function parsePairs(text: string): Array<{ key: string; value: string }> {
+    return text
+        .split('&')
+        .filter(Boolean)
+        .map((pair) => {
+            const [key, ...rest] = pair.split('=');
+            return { key: safeDecode(key), value: safeDecode(rest.join('=')) };
+        });
+}
+
+/**
+ * Serialize rows as "a=1&b=2", e.g. for urlencoded form bodies
+ */
+export function encodePairs(pairs: Array<{ key: string; value: string }>): string {
+    return pairs.map(({ key, value }) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+}
@@ -0,0 +1,105 @@
+import type { RunReport, RunResultItem } from '../types';
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+}
+
+/**
+ * One testsuite per request; one testcase per assertion, or a single status check without assertions
+ */
+function toTestSuite(result: RunResultItem): { xml: string; tests: number; failures: number; errors: number } {
+    const name = escapeXml(`${result.method} ${result.url}`);
+    const cases: string[] = [];
+    let failures = 0;
+    let errors = 0;
+
+    if (result.error) {
+        errors++;
+        cases.push(
+            `      <testcase name="request" classname="${name}" time="0.000">\n` +
+            `        <error message="${escapeXml(result.error)}"/>\n` +
+            `      </testcase>`
+        );
+    } else if (result.assertionResults && result.assertionResults.length > 0) {
+        for (const assertion of result.assertionResults) {
+            const caseName = escapeXml(assertion.description);
+            if (assertion.passed) {
+                cases.push(`      <testcase name="${caseName}" classname="${name}" time="${seconds(result.time)}"/>`);
+            } else {
+                failures++;
+                cases.push(
+                    `      <testcase name="${caseName}" classname="${name}" time="${seconds(result.time)}">\n` +
+                    `        <failure message="${escapeXml(assertion.message)}"/>\n` +
+                    `      </testcase>`
+                );
+            }
+        }
+    } else if (result.passed) {
+        cases.push(`      <testcase name="status is successful" classname="${name}" time="${seconds(result.time)}"/>`);
+    } else {
+        failures++;
+        cases.push(
+            `      <testcase name="status is successful" classname="${name}" time="${seconds(result.time)}">\n` +
+            `        <failure message="${escapeXml(`got ${result.status} ${result.statusText}`)}"/>\n` +
+            `      </testcase>`
+        );
+    }
+
+    const xml =
+        `    <testsuite name="${name}" tests="${cases.length}" failures="${failures}" errors="${errors}" time="${seconds(result.time)}">\n` +
+        `${cases.join('\n')}\n` +
+        `    </testsuite>`;
+
+    return { xml, tests: cases.length, failures, errors };
+}
+
+/**
+ * Export a run report as JUnit XML, as understood by CI servers and test management tools
+ */
+export function toJUnitXml(report: RunReport): string {
+    const suites = report.results.map(toTestSuite);
+    const totals = suites.reduce(
+        (acc, suite) => ({
+            tests: acc.tests + suite.tests,
+            failures: acc.failures + suite.failures,
+            errors: acc.errors + suite.errors,
+        }),
+        { tests: 0, failures: 0, errors: 0 }
+    );
+    const duration = (report.finishedAt ?? report.startedAt) - report.startedAt;
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="tldfetch" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" time="${seconds(duration)}" timestamp="${new Date(report.startedAt).toISOString()}">`,
+        ...suites.map((suite) => suite.xml),
+        '</testsuites>',
+        '',
+    ].join('\n');
+}
+
+/**
+ * Export a run report as JSON with a summary block
+ */
+export function toJsonReport(report: RunReport): string {
+    const passed = report.results.filter((result) => result.passed).length;
+
+    return JSON.stringify({
+        startedAt: new Date(report.startedAt).toISOString(),
+        finishedAt: report.finishedAt ? new Date(report.finishedAt).toISOString() : null,
+        summary: {
+            total: report.results.length,
+            passed,
+            failed: report.results.length - passed,
+        },
+        results: report.results,
+    }, null, 2);
+}
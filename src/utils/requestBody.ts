@@ -0,0 +1,78 @@
+import type { BlockData, BodyType } from '../types';
+import { jsonToFields } from './bodyFields';
+import { parsePairs } from './queryString';
+
+// The body part of a method block's data
+export type RequestBodyData = Pick<BlockData, 'bodyType' | 'bodyFields' | 'formFields' | 'rawBody'>;
+
+export const BODY_TYPES: Array<{ id: BodyType; label: string; contentType: string }> = [
+    { id: 'json', label: 'JSON', contentType: 'application/json' },
+    { id: 'form', label: 'Form URL-encoded', contentType: 'application/x-www-form-urlencoded' },
+    { id: 'multipart', label: 'Multipart form', contentType: 'multipart/form-data' },
+    { id: 'xml', label: 'XML', contentType: 'application/xml' },
+    { id: 'text', label: 'Plain text', contentType: 'text/plain' },
+];
+
+export function getContentType(bodyType: BodyType): string {
+    return BODY_TYPES.find((type) => type.id === bodyType)!.contentType;
+}
+
+/**
+ * Pick the body type for a Content-Type (parameters such as charset are ignored)
+ * Returns null for media types no body type covers, e.g. application/octet-stream
+ */
+export function bodyTypeForContentType(contentType: string): BodyType | null {
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+
+    if (mediaType === 'application/json' || mediaType.endsWith('+json')) return 'json';
+    if (mediaType === 'application/x-www-form-urlencoded') return 'form';
+    if (mediaType === 'multipart/form-data') return 'multipart';
+    if (mediaType.endsWith('/xml') || mediaType.endsWith('+xml')) return 'xml';
+    if (mediaType.startsWith('text/')) return 'text';
+    return null;
+}
+
+/**
+ * Guess the type of a body sent without a Content-Type
+ */
+function guessBodyType(text: string): BodyType {
+    if (text.startsWith('{') || text.startsWith('[')) return 'json';
+    if (text.startsWith('<')) return 'xml';
+    if (/^[^\s=&]+=\S*$/.test(text)) return 'form';
+    return 'text';
+}
+
+/**
+ * Turn a pasted or captured body into method block data
+ * Without a Content-Type the type is guessed: JSON, key=value pairs, XML, else plain text
+ */
+export function parseRequestBody(text: string, contentType?: string): RequestBodyData {
+    const trimmed = text.trim();
+    if (!trimmed) return {};
+
+    const bodyType = (contentType && bodyTypeForContentType(contentType)) || guessBodyType(trimmed);
+
+    switch (bodyType) {
+        case 'json': {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(trimmed);
+            } catch {
+                throw new Error('Request body is not valid JSON');
+            }
+
+            // Only objects map to fields; other JSON (arrays, scalars) is kept as text
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                return { bodyType: 'json', bodyFields: jsonToFields(parsed as Record<string, unknown>) };
+            }
+            return { bodyType: 'text', rawBody: trimmed };
+        }
+        case 'form':
+            return { bodyType: 'form', formFields: parsePairs(trimmed) };
+        case 'multipart':
+            // Encoded multipart payloads (boundaries and all) are not split back into fields
+            return {};
+        default:
+            return { bodyType, rawBody: trimmed };
+    }
+}
@@ -0,0 +1,271 @@
+import type { ApiBlock, BlockData, FormField, HeaderField, HttpMethod, RequestState } from '../types';
+import { buildQueryString, appendQueryString, encodePairs } from './queryString';
+import { interpolate, interpolatePathParams, findUnresolved } from './template';
+import { collectFieldText, fieldsToJson, type JsonObject } from './bodyFields';
+import { getContentType } from './requestBody';
+
+export const DEFAULT_HEADERS: HeaderField[] = [{ key: 'Content-Type', value: 'application/json' }];
+
+const BODY_METHODS: HttpMethod[] = ['POST', 'PUT', 'PATCH'];
+
+// Resolved body by type; multipart files are referenced here and read when the request is sent
+export type BuiltBody =
+    | { type: 'json'; data: JsonObject }
+    | { type: 'form'; fields: Array<{ key: string; value: string }> }
+    | { type: 'multipart'; fields: FormField[] }
+    | { type: 'xml' | 'text'; text: string };
+
+// Fully resolved request, exactly as it goes over the wire
+export interface BuiltRequest {
+    method: HttpMethod;
+    url: string;
+    headers: Record<string, string>;
+    body?: BuiltBody;
+    // Placeholder names left unresolved anywhere in the request
+    unresolved: string[];
+    // Required query parameters and headers that would be sent empty (or not at all)
+    missing: string[];
+}
+
+export function methodHasBody(method: HttpMethod): boolean {
+    return BODY_METHODS.includes(method);
+}
+
+/**
+ * Build the URL for a traced path (base URL first)
+ */
+export function buildUrl(pathNodes: ApiBlock[], variables: Record<string, string>): string | null {
+    const path: string[] = [];
+    const queryStrings: string[] = [];
+
+    for (const node of pathNodes) {
+        if (node.data.type === 'baseUrl') {
+            path.push(interpolate(node.data.value, variables));
+        } else if (node.data.type === 'resource') {
+            path.push(interpolatePathParams(interpolate(node.data.value, variables), variables));
+        } else if (node.data.type === 'query') {
+            // Query blocks can sit anywhere along the path; their rows are merged in path order
+            const queryParams = (node.data.queryParams || []).map((param) => ({
+                ...param,
+                key: interpolate(param.key, variables),
+                value: interpolate(param.value, variables),
+            }));
+            const queryString = buildQueryString(queryParams, node.data.arrayStyle);
+            if (queryString) queryStrings.push(queryString);
+        }
+    }
+
+    if (path.length === 0) return null;
+
+    const url = path.join('/').replace(/([^:]\/)\/+/g, '$1');
+    return appendQueryString(url, queryStrings.join('&'));
+}
+
+/**
+ * Templated text of the body type a method block sends
+ */
+function collectBodyText(data: BlockData): string[] {
+    switch (data.bodyType || 'json') {
+        case 'json':
+            return collectFieldText(data.bodyFields || []);
+        case 'form':
+        case 'multipart':
+            return (data.formFields || [])
+                .filter((field) => field.key)
+                .map((field) => (field.isFile ? field.key : field.key + field.value));
+        default:
+            return [data.rawBody || ''];
+    }
+}
+
+/**
+ * Build the body of the method block's selected type, or undefined when it is empty
+ */
+function buildBody(data: BlockData, variables: Record<string, string>): BuiltBody | undefined {
+    const resolve = (text: string) => interpolate(text, variables);
+    const bodyType = data.bodyType || 'json';
+
+    if (bodyType === 'json') {
+        const bodyFields = data.bodyFields || [];
+        return bodyFields.length > 0 ? { type: 'json', data: fieldsToJson(bodyFields, resolve) } : undefined;
+    }
+
+    if (bodyType === 'form' || bodyType === 'multipart') {
+        const fields = (data.formFields || []).filter((field) => field.key);
+        if (fields.length === 0) return undefined;
+
+        return bodyType === 'form'
+            ? { type: 'form', fields: fields.map(({ key, value }) => ({ key: resolve(key), value: resolve(value) })) }
+            : { type: 'multipart', fields: fields.map((field) => ({ ...field, key: resolve(field.key), value: resolve(field.value) })) };
+    }
+
+    return data.rawBody ? { type: bodyType, text: resolve(data.rawBody) } : undefined;
+}
+
+/**
+ * Whether a text body holds JSON, e.g. a top-level array (json bodies are objects)
+ */
+function isJsonText(text: string): boolean {
+    try {
+        JSON.parse(text);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Make the Content-Type header match the body type
+ * A Content-Type the user set is kept, unless it is the JSON default on a non-JSON body;
+ * text bodies holding JSON keep it too.
+ * Multipart always gets a plain multipart/form-data: the client adds its own boundary
+ */
+function applyContentType(headers: Record<string, string>, body: BuiltBody) {
+    const key = Object.keys(headers).find((name) => name.toLowerCase() === 'content-type') || 'Content-Type';
+    const current = headers[key]?.toLowerCase();
+    const isJson = body.type === 'json' || (body.type === 'text' && isJsonText(body.text));
+
+    const mismatched = !current
+        || body.type === 'multipart'
+        || (!isJson && current.startsWith('application/json'));
+    if (mismatched) headers[key] = getContentType(body.type);
+}
+
+/**
+ * Collect unresolved placeholders from every templated field of the path and method block
+ */
+function collectUnresolved(pathNodes: ApiBlock[], methodData: BlockData, variables: Record<string, string>): string[] {
+    const unresolved: string[] = [];
+
+    for (const node of pathNodes) {
+        if (node.data.type === 'baseUrl') {
+            unresolved.push(...findUnresolved(node.data.value, variables));
+        } else if (node.data.type === 'resource') {
+            unresolved.push(...findUnresolved(node.data.value, variables, { pathParams: true }));
+        } else if (node.data.type === 'query') {
+            for (const param of node.data.queryParams || []) {
+                if (!param.enabled) continue;
+                unresolved.push(...findUnresolved(param.key + param.value, variables));
+            }
+        }
+    }
+
+    for (const header of methodData.headers || DEFAULT_HEADERS) {
+        if (!header.key || !header.value) continue;
+        unresolved.push(...findUnresolved(header.key + header.value, variables));
+    }
+
+    unresolved.push(...findUnresolved(methodData.bearerToken || '', variables));
+
+    if (methodHasBody(methodData.method || 'GET')) {
+        for (const text of collectBodyText(methodData)) {
+            unresolved.push(...findUnresolved(text, variables));
+        }
+    }
+
+    return Array.from(new Set(unresolved));
+}
+
+/**
+ * Whether a header value leaves something out: empty, or a cookie without a value (e.g. "session=")
+ */
+function isEmptyHeaderValue(key: string, value: string): boolean {
+    if (!value.trim()) return true;
+    return key.toLowerCase() === 'cookie' && value.split(';').some((pair) => !pair.split('=').slice(1).join('=').trim());
+}
+
+/**
+ * Collect the required query parameters and headers that are disabled or resolve to nothing
+ */
+function collectMissing(pathNodes: ApiBlock[], methodData: BlockData, variables: Record<string, string>): string[] {
+    const missing: string[] = [];
+
+    for (const node of pathNodes) {
+        if (node.data.type !== 'query') continue;
+        for (const param of node.data.queryParams || []) {
+            if (param.required && (!param.enabled || !interpolate(param.value, variables).trim())) {
+                missing.push(param.key);
+            }
+        }
+    }
+
+    for (const header of methodData.headers || []) {
+        if (header.required && isEmptyHeaderValue(header.key, interpolate(header.value, variables))) {
+            missing.push(header.key);
+        }
+    }
+
+    return Array.from(new Set(missing));
+}
+
+/**
+ * Build the resolved request for a traced path ending in a method block
+ * This is the single source of truth for what a method block sends
+ */
+export function buildRequest(pathNodes: ApiBlock[], variables: Record<string, string>): BuiltRequest | null {
+    const methodNode = pathNodes.find((node) => node.data.type === 'method');
+    if (!methodNode) return null;
+
+    const url = buildUrl(pathNodes, variables);
+    if (!url) return null;
+
+    const { data } = methodNode;
+    const method = data.method || 'GET';
+
+    const headers = (data.headers || DEFAULT_HEADERS).reduce((acc, { key, value }) => {
+        if (key && value) acc[interpolate(key, variables)] = interpolate(value, variables);
+        return acc;
+    }, {} as Record<string, string>);
+
+    // Automatically add Authorization header if bearer token is provided
+    if (data.bearerToken) {
+        headers['Authorization'] = `Bearer ${interpolate(data.bearerToken, variables)}`;
+    }
+
+    const request: BuiltRequest = {
+        method,
+        url,
+        headers,
+        unresolved: collectUnresolved(pathNodes, data, variables),
+        missing: collectMissing(pathNodes, data, variables),
+    };
+
+    const body = methodHasBody(method) ? buildBody(data, variables) : undefined;
+    if (body) {
+        request.body = body;
+        applyContentType(headers, body);
+    }
+
+    return request;
+}
+
+/**
+ * Serialize a body as text
+ * Multipart bodies become a key=value / key=@file.name summary, one field per line
+ */
+export function serializeBody(body: BuiltBody): string {
+    switch (body.type) {
+        case 'json':
+            return JSON.stringify(body.data);
+        case 'form':
+            return encodePairs(body.fields);
+        case 'multipart':
+            return body.fields
+                .map((field) => `${field.key}=${field.isFile ? `@${field.file?.name ?? ''}` : field.value}`)
+                .join('\n');
+        default:
+            return body.text;
+    }
+}
+
+/**
+ * Snapshot a built request for history (body serialized as sent)
+ */
+export function toRequestState(request: BuiltRequest): RequestState {
+    return {
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        body: request.body ? serializeBody(request.body) : '',
+    };
+}
@@ -0,0 +1,269 @@
+import type { OpenAPISchema } from './openApiSchema';
+
+// Swagger 2.0 Types (simplified for our needs)
+interface SwaggerParameter {
+    name: string;
+    in: 'path' | 'query' | 'header' | 'formData' | 'body';
+    description?: string;
+    required?: boolean;
+    // Body parameters
+    schema?: OpenAPISchema;
+    // Other parameters describe their value inline
+    type?: string;
+    format?: string;
+    items?: OpenAPISchema;
+    enum?: unknown[];
+    default?: unknown;
+    'x-example'?: unknown;
+}
+
+type SwaggerParameterOrRef = SwaggerParameter | { $ref: string };
+
+interface SwaggerResponse {
+    description?: string;
+    schema?: OpenAPISchema;
+    // Keyed by mime type
+    examples?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
+}
+
+interface SwaggerOperation {
+    summary?: string;
+    description?: string;
+    operationId?: string;
+    tags?: string[];
+    consumes?: string[];
+    produces?: string[];
+    parameters?: SwaggerParameterOrRef[];
+    responses?: Record<string, SwaggerResponse | { $ref: string }>;
+}
+
+type SwaggerPathItem = Record<string, SwaggerOperation | SwaggerParameterOrRef[]> & {
+    parameters?: SwaggerParameterOrRef[];
+};
+
+export interface SwaggerSpec {
+    swagger: string;
+    info?: Record<string, unknown>;
+    host?: string;
+    basePath?: string;
+    schemes?: string[];
+    consumes?: string[];
+    produces?: string[];
+    paths?: Record<string, SwaggerPathItem>;
+    definitions?: Record<string, OpenAPISchema>;
+    parameters?: Record<string, SwaggerParameter>;
+    responses?: Record<string, SwaggerResponse>;
+    tags?: unknown[];
+}
+
+const OPERATION_KEYS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+
+const FORM_URLENCODED = 'application/x-www-form-urlencoded';
+const MULTIPART = 'multipart/form-data';
+
+// Where 2.0 components moved in 3.x
+const REF_PREFIXES: Array<[string, string]> = [
+    ['#/definitions/', '#/components/schemas/'],
+    ['#/parameters/', '#/components/parameters/'],
+    ['#/responses/', '#/components/responses/'],
+];
+
+export function isSwagger2(spec: unknown): spec is SwaggerSpec {
+    return !!spec && typeof spec === 'object' && String((spec as Record<string, unknown>).swagger).startsWith('2');
+}
+
+/**
+ * Deep-copy a value, pointing every $ref at its 3.x location
+ */
+function rewriteRefs<T>(value: T): T {
+    if (Array.isArray(value)) return value.map(rewriteRefs) as T;
+    if (!value || typeof value !== 'object') return value;
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+        if (key === '$ref' && typeof child === 'string') {
+            const prefix = REF_PREFIXES.find(([from]) => child.startsWith(from));
+            result[key] = prefix ? prefix[1] + child.slice(prefix[0].length) : child;
+        } else {
+            result[key] = rewriteRefs(child);
+        }
+    }
+    return result as T;
+}
+
+/**
+ * The server URL from host, basePath and schemes (https preferred)
+ * Without a host the URL is relative to wherever the spec is served
+ */
+function toServerUrl(spec: SwaggerSpec): string {
+    const basePath = (spec.basePath || '').replace(/\/+$/, '');
+    if (!spec.host) return basePath || '/';
+
+    const schemes = spec.schemes || [];
+    const scheme = schemes.includes('https') ? 'https' : schemes[0] || 'https';
+    return `${scheme}://${spec.host}${basePath}`;
+}
+
+/**
+ * Schema of a non-body parameter, which 2.0 describes with inline keywords
+ */
+function parameterSchema(param: SwaggerParameter): OpenAPISchema {
+    if (param.type === 'file') return { type: 'string', format: 'binary' };
+
+    const schema: OpenAPISchema = {};
+    if (param.type) schema.type = param.type;
+    if (param.format) schema.format = param.format;
+    if (param.items) schema.items = param.items;
+    if (param.enum) schema.enum = param.enum;
+    if (param.default !== undefined) schema.default = param.default;
+    return schema;
+}
+
+/**
+ * Convert a path, query or header parameter
+ */
+function convertParameter(param: SwaggerParameter): Record<string, unknown> {
+    const converted: Record<string, unknown> = {
+        name: param.name,
+        in: param.in,
+        schema: parameterSchema(param),
+    };
+    if (param.description) converted.description = param.description;
+    if (param.required) converted.required = true;
+    if (param['x-example'] !== undefined) converted.example = param['x-example'];
+    return converted;
+}
+
+/**
+ * Build a 3.x request body from body or formData parameters
+ */
+function buildRequestBody(params: SwaggerParameter[], consumes: string[]): Record<string, unknown> | undefined {
+    const bodyParam = params.find((param) => param.in === 'body');
+    if (bodyParam) {
+        const mediaTypes = consumes.filter((type) => type !== FORM_URLENCODED && type !== MULTIPART);
+        const content = Object.fromEntries(
+            (mediaTypes.length > 0 ? mediaTypes : ['application/json']).map((type) => [type, { schema: bodyParam.schema || {} }])
+        );
+        return {
+            content,
+            ...(bodyParam.description ? { description: bodyParam.description } : {}),
+            ...(bodyParam.required ? { required: true } : {}),
+        };
+    }
+
+    const formParams = params.filter((param) => param.in === 'formData');
+    if (formParams.length === 0) return undefined;
+
+    // Files need multipart; otherwise the first form type the operation consumes
+    const hasFile = formParams.some((param) => param.type === 'file');
+    const mediaType = hasFile ? MULTIPART : consumes.find((type) => type === FORM_URLENCODED || type === MULTIPART) || FORM_URLENCODED;
+    const required = formParams.filter((param) => param.required).map((param) => param.name);
+
+    const schema: OpenAPISchema = {
+        type: 'object',
+        properties: Object.fromEntries(formParams.map((param) => [param.name, parameterSchema(param)])),
+        ...(required.length > 0 ? { required } : {}),
+    };
+    return { content: { [mediaType]: { schema } } };
+}
+
+/**
+ * Convert a response: its schema and examples move under content, keyed by what the operation produces
+ */
+function convertResponse(response: SwaggerResponse, produces: string[]): Record<string, unknown> {
+    const converted: Record<string, unknown> = { description: response.description || '' };
+    if (response.headers) converted.headers = response.headers;
+
+    const mediaTypes = produces.length > 0 ? produces : ['application/json'];
+    if (response.schema || response.examples) {
+        converted.content = Object.fromEntries(mediaTypes.map((type) => [type, {
+            ...(response.schema ? { schema: response.schema } : {}),
+            ...(response.examples?.[type] !== undefined ? { example: response.examples[type] } : {}),
+        }]));
+    }
+    return converted;
+}
+
+/**
+ * Resolve a parameter $ref into the document's global parameters (still 2.0 refs here)
+ */
+function resolveParameter(param: SwaggerParameterOrRef, spec: SwaggerSpec): SwaggerParameter | undefined {
+    if (!('$ref' in param)) return param;
+    const match = param.$ref.match(/^#\/parameters\/(.+)$/);
+    return match ? spec.parameters?.[match[1]] : undefined;
+}
+
+/**
+ * Convert a Swagger 2.0 document into the OpenAPI 3.0 model the importer reads
+ * Body and formData parameters become request bodies, definitions become components
+ */
+export function convertSwagger2(source: SwaggerSpec): Record<string, unknown> {
+    const globalConsumes = source.consumes || [];
+    const globalProduces = source.produces || [];
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const [path, pathItem] of Object.entries(source.paths || {})) {
+        const sharedParams = (pathItem.parameters || [])
+            .map((param) => resolveParameter(param, source))
+            .filter((param): param is SwaggerParameter => !!param);
+        const convertedItem: Record<string, unknown> = {};
+
+        for (const key of OPERATION_KEYS) {
+            const operation = pathItem[key] as SwaggerOperation | undefined;
+            if (!operation || Array.isArray(operation)) continue;
+
+            // Operation parameters override path-level ones with the same name and location
+            const byKey = new Map<string, SwaggerParameter>();
+            for (const param of [...sharedParams, ...(operation.parameters || []).map((param) => resolveParameter(param, source))]) {
+                if (param) byKey.set(`${param.in}:${param.name}`, param);
+            }
+            const params = Array.from(byKey.values());
+
+            const converted: Record<string, unknown> = {};
+            for (const field of ['summary', 'description', 'operationId', 'tags'] as const) {
+                if (operation[field] !== undefined) converted[field] = operation[field];
+            }
+
+            const otherParams = params.filter((param) => param.in !== 'body' && param.in !== 'formData');
+            if (otherParams.length > 0) converted.parameters = otherParams.map(convertParameter);
+
+            const requestBody = buildRequestBody(params, operation.consumes || globalConsumes);
+            if (requestBody) converted.requestBody = requestBody;
+
+            const produces = operation.produces || globalProduces;
+            converted.responses = Object.fromEntries(
+                Object.entries(operation.responses || {}).map(([status, response]) => [
+                    status,
+                    '$ref' in response ? response : convertResponse(response, produces),
+                ])
+            );
+
+            convertedItem[key] = converted;
+        }
+
+        paths[path] = convertedItem;
+    }
+
+    const parameters = Object.fromEntries(
+        Object.entries(source.parameters || {})
+            .filter(([, param]) => param.in !== 'body' && param.in !== 'formData')
+            .map(([name, param]) => [name, convertParameter(param)])
+    );
+    const responses = Object.fromEntries(
+        Object.entries(source.responses || {}).map(([name, response]) => [name, convertResponse(response, globalProduces)])
+    );
+
+    return rewriteRefs({
+        openapi: '3.0.3',
+        info: source.info || {},
+        servers: [{ url: toServerUrl(source) }],
+        ...(source.tags ? { tags: source.tags } : {}),
+        paths,
+        components: {
+            schemas: source.definitions || {},
+            parameters,
+            responses,
+        },
+    });
+}
@@ -0,0 +1,63 @@
+// Matches {{name}} placeholders, allowing whitespace inside the braces
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// Matches single-brace {name} path parameters, but not the inside of a {{name}} placeholder
+const PATH_PARAM_PATTERN = /(?<!\{)\{([\w-]+)\}(?!\})/g;
+
+/**
+ * Replace {{name}} placeholders with variable values
+ * Unknown variables are left untouched so they stay visible
+ */
+export function interpolate(text: string, variables: Record<string, string>): string {
+    return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+        return name in variables ? variables[name] : match;
+    });
+}
+
+/**
+ * Replace {name} path parameters (resource blocks) with variable values
+ * Empty or unknown values keep the {name} form so the URL shows what is missing
+ */
+export function interpolatePathParams(text: string, variables: Record<string, string>): string {
+    return text.replace(PATH_PARAM_PATTERN, (match, name: string) => {
+        return variables[name] || match;
+    });
+}
+
+/**
+ * Check whether a string contains any {{name}} placeholder
+ */
+export function hasPlaceholders(text: string): boolean {
+    return new RegExp(PLACEHOLDER_PATTERN.source).test(text);
+}
+
+/**
+ * List the {name} path parameters of a resource value
+ */
+export function findPathParams(text: string): string[] {
+    return Array.from(text.matchAll(PATH_PARAM_PATTERN), (match) => match[1]);
+}
+
+/**
+ * List the placeholders in a string that the given variables cannot resolve
+ * Path parameters are only considered when `pathParams` is set (URLs)
+ */
+export function findUnresolved(
+    text: string,
+    variables: Record<string, string>,
+    options: { pathParams?: boolean } = {}
+): string[] {
+    const unresolved: string[] = [];
+
+    for (const [, name] of text.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!(name in variables)) unresolved.push(name);
+    }
+
+    if (options.pathParams) {
+        for (const name of findPathParams(text)) {
+            if (!variables[name]) unresolved.push(name);
+        }
+    }
+
+    return unresolved;
+}
@@ -0,0 +1,79 @@
+export interface UndoHistoryOptions {
+    // Oldest steps are dropped past this many
+    limit: number;
+    // Edits with the same key closer together than this share one step
+    coalesceMs: number;
+}
+
+export interface UndoHistory<T> {
+    // Save the state before an edit
+    record: (snapshot: T, key?: string) => void;
+    // Step back/forward: returns the state to restore, or null when there is none
+    undo: (current: T) => T | null;
+    redo: (current: T) => T | null;
+    // The step undo/redo would restore, without taking it
+    peekUndo: () => T | undefined;
+    peekRedo: () => T | undefined;
+    clear: () => void;
+    canUndo: () => boolean;
+    canRedo: () => boolean;
+}
+
+/**
+ * Bounded undo/redo stacks of snapshots
+ * Snapshots are kept by reference, so immutable state costs only what changed between steps
+ */
+export function createUndoHistory<T>(options: UndoHistoryOptions): UndoHistory<T> {
+    let past: T[] = [];
+    let future: T[] = [];
+    let lastKey: string | undefined;
+    let lastRecordedAt = 0;
+
+    return {
+        record: (snapshot, key) => {
+            const now = Date.now();
+
+            // Rapid edits of the same thing (typing, dragging) keep the snapshot from before the first one
+            if (key && key === lastKey && now - lastRecordedAt < options.coalesceMs) {
+                lastRecordedAt = now;
+                return;
+            }
+
+            past.push(snapshot);
+            if (past.length > options.limit) past.shift();
+            future = [];
+            lastKey = key;
+            lastRecordedAt = now;
+        },
+
+        undo: (current) => {
+            const snapshot = past.pop();
+            if (snapshot === undefined) return null;
+
+            future.push(current);
+            lastKey = undefined;
+            return snapshot;
+        },
+
+        redo: (current) => {
+            const snapshot = future.pop();
+            if (snapshot === undefined) return null;
+
+            past.push(current);
+            lastKey = undefined;
+            return snapshot;
+        },
+
+        peekUndo: () => past[past.length - 1],
+        peekRedo: () => future[future.length - 1],
+
+        clear: () => {
+            past = [];
+            future = [];
+            lastKey = undefined;
+        },
+
+        canUndo: () => past.length > 0,
+        canRedo: () => future.length > 0,
+    };
+}